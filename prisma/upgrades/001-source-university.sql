@@ -0,0 +1,28 @@
+-- Scope StudySpot and LectureHall source IDs to the university whose Firestore project they came from.
+-- Run once on a database created before StudySpot/LectureHall had sourceUniversityId:
+--   npx prisma db execute --file prisma/upgrades/001-source-university.sql
+
+BEGIN;
+
+ALTER TABLE "StudySpot" ADD COLUMN "sourceUniversityId" TEXT;
+ALTER TABLE "LectureHall" ADD COLUMN "sourceUniversityId" TEXT;
+
+-- Migrated rows came from the project of the university their building belongs to
+UPDATE "StudySpot" AS spot SET "sourceUniversityId" = building."universityId"
+  FROM "Building" AS building
+  WHERE building."id" = spot."buildingId" AND spot."sourceId" IS NOT NULL;
+UPDATE "LectureHall" AS hall SET "sourceUniversityId" = building."universityId"
+  FROM "Building" AS building
+  WHERE building."id" = hall."buildingId" AND hall."sourceId" IS NOT NULL;
+
+DROP INDEX "StudySpot_sourceId_key";
+DROP INDEX "LectureHall_sourceId_key";
+CREATE UNIQUE INDEX "StudySpot_sourceUniversityId_sourceId_key" ON "StudySpot"("sourceUniversityId", "sourceId");
+CREATE UNIQUE INDEX "LectureHall_sourceUniversityId_sourceId_key" ON "LectureHall"("sourceUniversityId", "sourceId");
+
+ALTER TABLE "StudySpot" ADD CONSTRAINT "StudySpot_sourceUniversityId_fkey"
+  FOREIGN KEY ("sourceUniversityId") REFERENCES "University"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "LectureHall" ADD CONSTRAINT "LectureHall_sourceUniversityId_fkey"
+  FOREIGN KEY ("sourceUniversityId") REFERENCES "University"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+COMMIT;
@@ -0,0 +1,135 @@
+-- Convert StudySpot.features, noiseLevel and spaceType from text to the Feature, NoiseLevel and SpaceType
+-- enums in place, with the synonyms of config/vocabularies.json. Run once on a database created before they
+-- were enums:
+--   npx prisma db execute --file prisma/upgrades/002-canonical-vocabularies.sql
+-- Unmapped features are dropped and an unmapped spaceType becomes NULL, as in the migration. An unmapped
+-- noiseLevel stops the script with nothing changed: add its spelling below (and to config/vocabularies.json).
+
+BEGIN;
+
+CREATE TYPE "Feature" AS ENUM ('WIFI', 'CAFE', 'POWER_OUTLETS', 'ACCESSIBLE');
+CREATE TYPE "NoiseLevel" AS ENUM ('QUIET', 'MODERATE', 'LOUD');
+CREATE TYPE "SpaceType" AS ENUM ('GROUP_STUDY_ROOM', 'INDEPENDENT_STUDY_ROOM', 'MEDIA_LAB_STUDIO', 'MEETING_AND_PRESENTATION_SPACE');
+
+-- Comparison key of a term -> value name, for every value's own name and its synonyms
+CREATE TEMPORARY TABLE vocabulary_terms (
+  vocabulary TEXT NOT NULL,
+  term TEXT NOT NULL,
+  value TEXT NOT NULL,
+  PRIMARY KEY (vocabulary, term)
+) ON COMMIT DROP;
+
+INSERT INTO vocabulary_terms (vocabulary, term, value) VALUES
+  ('Feature', 'wifi', 'WIFI'),
+  ('Feature', 'wi fi', 'WIFI'),
+  ('Feature', 'wireless', 'WIFI'),
+  ('Feature', 'wireless internet', 'WIFI'),
+  ('Feature', 'internet', 'WIFI'),
+  ('Feature', 'cafe', 'CAFE'),
+  ('Feature', 'coffee', 'CAFE'),
+  ('Feature', 'coffee shop', 'CAFE'),
+  ('Feature', 'food', 'CAFE'),
+  ('Feature', 'power outlets', 'POWER_OUTLETS'),
+  ('Feature', 'power outlet', 'POWER_OUTLETS'),
+  ('Feature', 'outlets', 'POWER_OUTLETS'),
+  ('Feature', 'outlet', 'POWER_OUTLETS'),
+  ('Feature', 'power', 'POWER_OUTLETS'),
+  ('Feature', 'plugs', 'POWER_OUTLETS'),
+  ('Feature', 'charging', 'POWER_OUTLETS'),
+  ('Feature', 'accessible', 'ACCESSIBLE'),
+  ('Feature', 'accessibility', 'ACCESSIBLE'),
+  ('Feature', 'wheelchair accessible', 'ACCESSIBLE'),
+  ('Feature', 'barrier free', 'ACCESSIBLE'),
+  ('NoiseLevel', 'quiet', 'QUIET'),
+  ('NoiseLevel', 'silent', 'QUIET'),
+  ('NoiseLevel', 'silence', 'QUIET'),
+  ('NoiseLevel', 'quiet zone', 'QUIET'),
+  ('NoiseLevel', 'low', 'QUIET'),
+  ('NoiseLevel', 'moderate', 'MODERATE'),
+  ('NoiseLevel', 'medium', 'MODERATE'),
+  ('NoiseLevel', 'normal', 'MODERATE'),
+  ('NoiseLevel', 'some noise', 'MODERATE'),
+  ('NoiseLevel', 'moderate noise', 'MODERATE'),
+  ('NoiseLevel', 'loud', 'LOUD'),
+  ('NoiseLevel', 'noisy', 'LOUD'),
+  ('NoiseLevel', 'busy', 'LOUD'),
+  ('NoiseLevel', 'high', 'LOUD'),
+  ('NoiseLevel', 'social', 'LOUD'),
+  ('SpaceType', 'group study room', 'GROUP_STUDY_ROOM'),
+  ('SpaceType', 'group study', 'GROUP_STUDY_ROOM'),
+  ('SpaceType', 'group room', 'GROUP_STUDY_ROOM'),
+  ('SpaceType', 'group study space', 'GROUP_STUDY_ROOM'),
+  ('SpaceType', 'independent study room', 'INDEPENDENT_STUDY_ROOM'),
+  ('SpaceType', 'independent study', 'INDEPENDENT_STUDY_ROOM'),
+  ('SpaceType', 'individual study', 'INDEPENDENT_STUDY_ROOM'),
+  ('SpaceType', 'individual study room', 'INDEPENDENT_STUDY_ROOM'),
+  ('SpaceType', 'solo study', 'INDEPENDENT_STUDY_ROOM'),
+  ('SpaceType', 'media lab studio', 'MEDIA_LAB_STUDIO'),
+  ('SpaceType', 'media lab', 'MEDIA_LAB_STUDIO'),
+  ('SpaceType', 'media studio', 'MEDIA_LAB_STUDIO'),
+  ('SpaceType', 'studio', 'MEDIA_LAB_STUDIO'),
+  ('SpaceType', 'lab', 'MEDIA_LAB_STUDIO'),
+  ('SpaceType', 'meeting and presentation space', 'MEETING_AND_PRESENTATION_SPACE'),
+  ('SpaceType', 'meeting room', 'MEETING_AND_PRESENTATION_SPACE'),
+  ('SpaceType', 'presentation space', 'MEETING_AND_PRESENTATION_SPACE'),
+  ('SpaceType', 'meeting space', 'MEETING_AND_PRESENTATION_SPACE'),
+  ('SpaceType', 'meeting and presentation room', 'MEETING_AND_PRESENTATION_SPACE');
+
+-- The migration's comparison key (normalizeTerm in src/migration/vocabularies.ts): case, accents,
+-- punctuation and whitespace are ignored ("Wi-Fi " -> "wi fi")
+CREATE FUNCTION pg_temp.vocabulary_key(term TEXT) RETURNS TEXT LANGUAGE sql IMMUTABLE AS $$
+  SELECT trim(regexp_replace(
+    replace(translate(lower(term), 'àáâãäåçèéêëìíîïñòóôõöùúûüýÿ', 'aaaaaaceeeeiiiinooooouuuuyy'), '&', ' and '),
+    '[^a-z0-9]+', ' ', 'g'
+  ))
+$$;
+
+-- Value name of a term, or NULL when none matches
+CREATE FUNCTION pg_temp.canonical(vocabulary TEXT, term TEXT) RETURNS TEXT LANGUAGE sql STABLE AS $$
+  SELECT value FROM vocabulary_terms WHERE vocabulary_terms.vocabulary = $1 AND term = pg_temp.vocabulary_key($2)
+$$;
+
+-- Value names of a list of terms, in order, without unmapped terms and duplicates
+CREATE FUNCTION pg_temp.canonical_list(vocabulary TEXT, terms TEXT[]) RETURNS TEXT[] LANGUAGE sql STABLE AS $$
+  SELECT coalesce(array_agg(value ORDER BY position), '{}')
+  FROM (
+    SELECT pg_temp.canonical($1, source.term) AS value, min(source.position) AS position
+    FROM unnest($2) WITH ORDINALITY AS source(term, position)
+    GROUP BY 1
+  ) AS mapped
+  WHERE value IS NOT NULL
+$$;
+
+DO $$
+DECLARE
+  unmapped TEXT;
+BEGIN
+  SELECT string_agg(DISTINCT "noiseLevel", ', ') INTO unmapped
+    FROM "StudySpot" WHERE pg_temp.canonical('NoiseLevel', "noiseLevel") IS NULL;
+  IF unmapped IS NOT NULL THEN
+    RAISE EXCEPTION 'No NoiseLevel value for: %', unmapped;
+  END IF;
+
+  SELECT string_agg(DISTINCT feature, ', ') INTO unmapped
+    FROM "StudySpot", unnest("features") AS feature WHERE pg_temp.canonical('Feature', feature) IS NULL;
+  IF unmapped IS NOT NULL THEN
+    RAISE NOTICE 'Dropping unmapped features: %', unmapped;
+  END IF;
+
+  SELECT string_agg(DISTINCT "spaceType", ', ') INTO unmapped
+    FROM "StudySpot" WHERE "spaceType" IS NOT NULL AND pg_temp.canonical('SpaceType', "spaceType") IS NULL;
+  IF unmapped IS NOT NULL THEN
+    RAISE NOTICE 'Clearing unmapped space types: %', unmapped;
+  END IF;
+END $$;
+
+ALTER TABLE "StudySpot"
+  ALTER COLUMN "features" TYPE "Feature"[] USING pg_temp.canonical_list('Feature', "features")::"Feature"[],
+  ALTER COLUMN "noiseLevel" TYPE "NoiseLevel" USING pg_temp.canonical('NoiseLevel', "noiseLevel")::"NoiseLevel",
+  ALTER COLUMN "spaceType" TYPE "SpaceType" USING pg_temp.canonical('SpaceType', "spaceType")::"SpaceType";
+
+DROP FUNCTION pg_temp.canonical_list(TEXT, TEXT[]);
+DROP FUNCTION pg_temp.canonical(TEXT, TEXT);
+DROP FUNCTION pg_temp.vocabulary_key(TEXT);
+
+COMMIT;
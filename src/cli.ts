@@ -0,0 +1,67 @@
+import { COMMANDS } from './cli/commands';
+import {
+  CommandSpec,
+  EXIT_FAILURE,
+  EXIT_OK,
+  EXIT_USAGE,
+  formatCommandHelp,
+  formatProgramHelp,
+  parseOptions,
+  UsageError,
+} from './cli/args';
+
+const PROGRAM = 'npm run cli --';
+
+/**
+ * The command named by the leading words of the arguments ("storage gc --delete" -> storage gc),
+ * and the arguments after it
+ */
+function findCommand(args: string[]): { command: CommandSpec; rest: string[] } | null {
+  for (const command of COMMANDS) {
+    const words = command.name.split(' ');
+    if (words.every((word, index) => args[index] === word)) {
+      return { command, rest: args.slice(words.length) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Entry point of every command: export, migrate, verify and the maintenance tasks.
+ * Resolves to the process exit code.
+ */
+async function main(args: string[]): Promise<number> {
+  if (args.length === 0 || args[0] === '--help' || args[0] === 'help') {
+    console.log(formatProgramHelp(PROGRAM, COMMANDS));
+    return args.length === 0 ? EXIT_USAGE : EXIT_OK;
+  }
+  
+  const found = findCommand(args);
+  if (!found) {
+    console.error(`❌ Unknown command: ${args.join(' ')}\n`);
+    console.error(formatProgramHelp(PROGRAM, COMMANDS));
+    return EXIT_USAGE;
+  }
+  
+  const { command, rest } = found;
+  if (rest.includes('--help')) {
+    console.log(formatCommandHelp(PROGRAM, command));
+    return EXIT_OK;
+  }
+  
+  try {
+    return await command.run(parseOptions(command.options, rest));
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`❌ ${error.message}\n`);
+      console.error(formatCommandHelp(PROGRAM, command));
+      return EXIT_USAGE;
+    }
+    console.error(`\n❌ ${error instanceof Error ? error.message : error}`);
+    return EXIT_FAILURE;
+  }
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,162 @@
+// Argument parsing and help text for the command-line interface.
+// Options are always "--name" (boolean) or "--name=value", as the npm scripts have always taken them.
+
+// Exit codes, so cron jobs and CI can tell a failed check from a crash
+export const EXIT_OK = 0;
+// The command failed (an error was thrown)
+export const EXIT_FAILURE = 1;
+// Unknown command or option, or an invalid value
+export const EXIT_USAGE = 2;
+// The command ran, but what it checked didn't pass (verification, reconciliation)
+export const EXIT_CHECK_FAILED = 3;
+
+export type OptionValue = boolean | string | number | string[];
+
+export interface OptionSpec {
+  name: string;
+  description: string;
+  type: 'boolean' | 'string' | 'integer' | 'number';
+  // Shown in the help text, e.g. "--page-size=<n>"
+  valueName?: string;
+  choices?: string[];
+  // Value when given as a bare "--name" (e.g. --prune means --prune=flag)
+  implicit?: string;
+  // Smallest allowed value of a numeric option
+  min?: number;
+  // May be given more than once; the values are collected in order
+  multiple?: boolean;
+}
+
+export interface CommandSpec {
+  // Words that select the command, e.g. "collections list"
+  name: string;
+  summary: string;
+  // Extra help lines, e.g. examples
+  details?: string[];
+  options: OptionSpec[];
+  run(options: Record<string, OptionValue | undefined>): Promise<number>;
+}
+
+/**
+ * Bad command-line input; reported with the command's usage and EXIT_USAGE
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Convert one option's raw text to its declared type
+ */
+function parseValue(spec: OptionSpec, raw: string): string | number {
+  if (spec.choices && !spec.choices.includes(raw)) {
+    throw new UsageError(`--${spec.name} must be one of ${spec.choices.join(', ')} (got "${raw}")`);
+  }
+  if (spec.type === 'string') return raw;
+
+  const value = Number(raw);
+  if (raw.trim() === '' || !Number.isFinite(value) || (spec.type === 'integer' && !Number.isInteger(value))) {
+    throw new UsageError(`--${spec.name} must be ${spec.type === 'integer' ? 'an integer' : 'a number'} (got "${raw}")`);
+  }
+  if (spec.min !== undefined && value < spec.min) {
+    throw new UsageError(`--${spec.name} must be at least ${spec.min}`);
+  }
+  return value;
+}
+
+/**
+ * Parse a command's arguments against its option specs. Unknown options, positional
+ * arguments and malformed values throw a UsageError.
+ */
+export function parseOptions(specs: OptionSpec[], args: string[]): Record<string, OptionValue | undefined> {
+  const options: Record<string, OptionValue | undefined> = {};
+
+  for (const arg of args) {
+    if (!arg.startsWith('--')) {
+      throw new UsageError(`Unexpected argument "${arg}"`);
+    }
+
+    const [name, ...rest] = arg.slice(2).split('=');
+    const raw = rest.length > 0 ? rest.join('=') : undefined;
+    const spec = specs.find(option => option.name === name);
+    if (!spec) {
+      throw new UsageError(`Unknown option --${name}`);
+    }
+
+    let value: OptionValue;
+    if (spec.type === 'boolean') {
+      if (raw !== undefined) throw new UsageError(`--${name} doesn't take a value`);
+      value = true;
+    } else if (raw !== undefined) {
+      value = parseValue(spec, raw);
+    } else if (spec.implicit !== undefined) {
+      value = parseValue(spec, spec.implicit);
+    } else {
+      throw new UsageError(`--${name} needs a value (--${name}=${spec.valueName || '<value>'})`);
+    }
+
+    if (spec.multiple) {
+      options[name] = [...((options[name] as string[] | undefined) || []), String(value)];
+    } else if (name in options) {
+      throw new UsageError(`--${name} given more than once`);
+    } else {
+      options[name] = value;
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Comma-separated list option ("a, b,c") as its trimmed, non-empty items
+ */
+export function splitList(value: OptionValue | undefined): string[] {
+  if (value === undefined) return [];
+  return String(value).split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * How one option is written in the help text
+ */
+function formatOption(option: OptionSpec): string {
+  if (option.type === 'boolean') return `--${option.name}`;
+  const value = option.valueName || (option.choices ? option.choices.join('|') : 'value');
+  return option.implicit !== undefined ? `--${option.name}[=${value}]` : `--${option.name}=${value}`;
+}
+
+/**
+ * Help text of one command
+ */
+export function formatCommandHelp(program: string, command: CommandSpec): string {
+  const lines = [`Usage: ${program} ${command.name}${command.options.length > 0 ? ' [options]' : ''}`, '', command.summary];
+
+  if (command.options.length > 0) {
+    const width = Math.max(...command.options.map(option => formatOption(option).length));
+    lines.push('', 'Options:');
+    command.options.forEach(option => lines.push(`  ${formatOption(option).padEnd(width)}  ${option.description}`));
+  }
+
+  if (command.details) {
+    lines.push('', ...command.details);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Help text listing every command
+ */
+export function formatProgramHelp(program: string, commands: CommandSpec[]): string {
+  const width = Math.max(...commands.map(command => command.name.length));
+  return [
+    `Usage: ${program} <command> [options]`,
+    '',
+    'Commands:',
+    ...commands.map(command => `  ${command.name.padEnd(width)}  ${command.summary}`),
+    '',
+    `Run "${program} <command> --help" for the options of a command.`,
+    '',
+    `Exit codes: ${EXIT_OK} success, ${EXIT_FAILURE} error, ${EXIT_USAGE} invalid usage, ${EXIT_CHECK_FAILED} check failed`,
+  ].join('\n');
+}
@@ -0,0 +1,281 @@
+// Commands of the CLI. Each one loads its implementation only when it runs, so exporting
+// doesn't need a database and migrating doesn't need Firebase credentials.
+
+import { MIGRATION_STEPS, MigrationStep } from '../migration/checkpoint';
+import { SOURCE_KINDS, SourceKind } from '../migration/sources';
+import { configureLogging, LOG_FORMATS, LOG_LEVELS, LogFormat, LogLevel } from '../migration/logger';
+import { CommandSpec, EXIT_CHECK_FAILED, EXIT_OK, OptionSpec, OptionValue, splitList, UsageError } from './args';
+
+const universityOption: OptionSpec = {
+  name: 'university',
+  type: 'string',
+  valueName: '<slug>[,<slug>]',
+  description: 'Configured universities to process (default: all)',
+};
+
+const projectOption: OptionSpec = {
+  name: 'project',
+  type: 'string',
+  valueName: '<name>',
+  description: 'Named Firebase project, configured with FIREBASE_<NAME>_* variables (default FIREBASE_PROJECT)',
+};
+
+/**
+ * Pass --project on to services/client, which reads it when Firebase is first loaded
+ */
+function selectFirebaseProject(options: Record<string, OptionValue | undefined>): void {
+  if (options['project'] !== undefined) {
+    process.env.FIREBASE_PROJECT = options['project'] as string;
+  }
+}
+
+const collectionsList: CommandSpec = {
+  name: 'collections list',
+  summary: 'List the top-level Firestore collections',
+  options: [projectOption],
+  async run(options) {
+    selectFirebaseProject(options);
+    const { listCollections } = await import('../exportData');
+    await listCollections();
+    return EXIT_OK;
+  },
+};
+
+const exportCommand: CommandSpec = {
+  name: 'export',
+  summary: 'Export Firestore collections to ./data/collections',
+  details: [
+    'Examples:',
+    '  export                                        every collection, NDJSON, with manifest.json',
+    '  export --collection=users --format=json       one collection',
+    '  export --subcollections=flat --max-depth=2    recursive, one file per collection path',
+    '  export --collection=users --where=status,==,active --where=createdAt,>,2024-01-01',
+    '',
+    'Filter values are parsed as JSON when possible (numbers, true, null, ["a","b"]),',
+    'as dates when they look like ISO dates, and as strings otherwise.',
+  ],
+  options: [
+    { name: 'collection', type: 'string', valueName: '<name>', description: 'Export one collection instead of all' },
+    { name: 'format', type: 'string', choices: ['ndjson', 'json'], description: 'Output format (default ndjson)' },
+    { name: 'page-size', type: 'integer', valueName: '<n>', min: 1, description: 'Documents per Firestore query (default 500)' },
+    { name: 'gzip', type: 'boolean', description: 'Write .ndjson.gz files' },
+    { name: 'incremental', type: 'boolean', description: 'Only what changed since the last --incremental export (changesets)' },
+    {
+      name: 'subcollections',
+      type: 'string',
+      choices: ['nested', 'flat'],
+      implicit: 'nested',
+      description: 'Walk subcollections recursively (default layout nested)',
+    },
+    { name: 'max-depth', type: 'integer', valueName: '<n>', min: 0, description: 'Deepest subcollection level to export' },
+    {
+      name: 'where',
+      type: 'string',
+      valueName: '<field>,<op>,<value>',
+      multiple: true,
+      description: 'Only documents matching the filter (repeatable; needs --collection)',
+    },
+    { name: 'out', type: 'string', valueName: '<dir>', description: 'Output directory (default ./data/collections, or ./data/queries with --where)' },
+    projectOption,
+  ],
+  async run(options) {
+    if (options['where'] && !options['collection']) {
+      throw new UsageError('--where needs --collection');
+    }
+    if (options['where'] && (options['subcollections'] || options['incremental'])) {
+      throw new UsageError('--where can\'t be combined with --subcollections or --incremental');
+    }
+    if (options['incremental'] && options['subcollections']) {
+      throw new UsageError('--incremental can\'t be combined with --subcollections');
+    }
+    if (options['max-depth'] !== undefined && !options['subcollections']) {
+      throw new UsageError('--max-depth needs --subcollections');
+    }
+    if (options['gzip'] && (options['format'] === 'json' || options['incremental'])) {
+      throw new UsageError('--gzip only applies to NDJSON exports');
+    }
+
+    selectFirebaseProject(options);
+    const { parseQueryFilter, runExport } = await import('../exportData');
+    const where = ((options['where'] as string[] | undefined) || []).map(filter => {
+      try {
+        return parseQueryFilter(filter);
+      } catch (error) {
+        throw new UsageError(error instanceof Error ? error.message : `${error}`);
+      }
+    });
+
+    await runExport({
+      collection: options['collection'] as string | undefined,
+      outputDir: options['out'] as string | undefined,
+      format: (options['format'] as 'ndjson' | 'json' | undefined) || 'ndjson',
+      ...(options['page-size'] !== undefined && { pageSize: options['page-size'] as number }),
+      gzip: Boolean(options['gzip']),
+      incremental: Boolean(options['incremental']),
+      subcollections: options['subcollections'] as 'nested' | 'flat' | undefined,
+      maxDepth: options['max-depth'] as number | undefined,
+      where,
+    });
+    return EXIT_OK;
+  },
+};
+
+const migrateCommand: CommandSpec = {
+  name: 'migrate',
+  summary: 'Migrate exported data into Postgres and storage',
+  details: [
+    `Steps, in order: ${MIGRATION_STEPS.join(', ')}.`,
+    'Selecting a step also runs the steps it needs (e.g. --steps=studySpots runs university and buildings);',
+    'after a partial run the checkpoint is kept, so --resume runs the remaining steps.',
+  ],
+  options: [
+    universityOption,
+    { name: 'dry-run', type: 'boolean', description: 'Report the plan without writing anything' },
+    { name: 'steps', type: 'string', valueName: '<step>[,<step>]', description: 'Run only these steps (default: all)' },
+    { name: 'source', type: 'string', choices: SOURCE_KINDS, description: 'Read the export directory, Firestore or the emulator (default export)' },
+    { name: 'emulator-host', type: 'string', valueName: '<host:port>', description: 'Firestore emulator with --source=emulator (default localhost:8080)' },
+    projectOption,
+    { name: 'resume', type: 'boolean', description: 'Continue from the checkpoint of an interrupted run' },
+    { name: 'changeset', type: 'boolean', description: 'Apply the changesets of an incremental export' },
+    {
+      name: 'prune',
+      type: 'string',
+      choices: ['none', 'flag', 'delete'],
+      implicit: 'flag',
+      description: 'Handle rows whose source document is gone (default none)',
+    },
+    { name: 'lenient', type: 'boolean', description: 'Skip invalid source documents instead of aborting' },
+    { name: 'skip-verify', type: 'boolean', description: 'Don\'t check the export against its manifest.json' },
+    { name: 'create-unknown-buildings', type: 'boolean', description: 'Create buildings whose names can\'t be resolved' },
+    { name: 'batch-size', type: 'integer', valueName: '<n>', min: 1, description: 'Rows per insert for buildings, study spots and lecture halls (default 200)' },
+    { name: 'photo-concurrency', type: 'integer', valueName: '<n>', min: 1, description: 'Photos processed in parallel (default 4)' },
+    { name: 'photo-retries', type: 'integer', valueName: '<n>', min: 0, description: 'Retries per photo stage (default 3)' },
+    { name: 'log-level', type: 'string', choices: LOG_LEVELS, description: 'Least severe log entries shown (default info, or LOG_LEVEL)' },
+    { name: 'log-format', type: 'string', choices: LOG_FORMATS, description: 'pretty, or one JSON object per line (default pretty, or LOG_FORMAT)' },
+  ],
+  async run(options) {
+    const steps = splitList(options['steps']);
+    const unknown = steps.filter(step => !MIGRATION_STEPS.includes(step as MigrationStep));
+    if (unknown.length > 0) {
+      throw new UsageError(`Unknown step(s): ${unknown.join(', ')} (expected ${MIGRATION_STEPS.join(', ')})`);
+    }
+    const source = (options['source'] as SourceKind | undefined) || 'export';
+    if (options['emulator-host'] && source !== 'emulator') {
+      throw new UsageError('--emulator-host needs --source=emulator');
+    }
+    if (source !== 'export' && (options['changeset'] || options['skip-verify'])) {
+      throw new UsageError('--changeset and --skip-verify only apply to --source=export');
+    }
+    if (options['project'] && source === 'export') {
+      throw new UsageError('--project needs --source=firestore or --source=emulator');
+    }
+    selectFirebaseProject(options);
+
+    configureLogging({
+      level: options['log-level'] as LogLevel | undefined,
+      format: options['log-format'] as LogFormat | undefined,
+    });
+
+    const { runMigration } = await import('../migrateData');
+    await runMigration({
+      dryRun: Boolean(options['dry-run']),
+      universities: splitList(options['university']),
+      steps: steps as MigrationStep[],
+      source,
+      emulatorHost: (options['emulator-host'] as string | undefined) ?? null,
+      resume: Boolean(options['resume']),
+      applyChangeset: Boolean(options['changeset']),
+      pruneMode: (options['prune'] as 'none' | 'flag' | 'delete' | undefined) || 'none',
+      lenient: Boolean(options['lenient']),
+      skipVerify: Boolean(options['skip-verify']),
+      createUnknownBuildings: Boolean(options['create-unknown-buildings']),
+      ...(options['batch-size'] !== undefined && { batchSize: options['batch-size'] as number }),
+      ...(options['photo-concurrency'] !== undefined && { photoConcurrency: options['photo-concurrency'] as number }),
+      ...(options['photo-retries'] !== undefined && { photoRetries: options['photo-retries'] as number }),
+    });
+    return EXIT_OK;
+  },
+};
+
+const verifyCommand: CommandSpec = {
+  name: 'verify',
+  summary: 'Check exports against their manifest.json',
+  options: [
+    universityOption,
+    { name: 'changeset', type: 'boolean', description: 'Check the changesets a --changeset migration would read' },
+    { name: 'data-dir', type: 'string', valueName: '<dir>', description: 'Check any export directory instead of the configured ones' },
+  ],
+  async run(options) {
+    const { verifyExports } = await import('../verifyExport');
+    const verified = await verifyExports({
+      dataDir: options['data-dir'] as string | undefined,
+      universities: splitList(options['university']),
+      changeset: Boolean(options['changeset']),
+    });
+    return verified ? EXIT_OK : EXIT_CHECK_FAILED;
+  },
+};
+
+const reconcileCommand: CommandSpec = {
+  name: 'reconcile',
+  summary: 'Compare the migrated rows with the exported source data',
+  options: [universityOption],
+  async run(options) {
+    const { runReconciliation } = await import('../reconcile');
+    return (await runReconciliation(splitList(options['university']))) ? EXIT_OK : EXIT_CHECK_FAILED;
+  },
+};
+
+const rollbackCommand: CommandSpec = {
+  name: 'rollback',
+  summary: 'Undo a migration run (lists recent runs without --run)',
+  options: [
+    { name: 'run', type: 'string', valueName: '<id>', description: 'Migration run to roll back' },
+    { name: 'list', type: 'boolean', description: 'List recent runs' },
+    { name: 'dry-run', type: 'boolean', description: 'Report what would be deleted' },
+  ],
+  async run(options) {
+    if (options['list'] && options['run']) {
+      throw new UsageError('--list and --run can\'t be combined');
+    }
+
+    const { runRollback } = await import('../rollback');
+    await runRollback({
+      runId: options['run'] as string | undefined,
+      list: Boolean(options['list']),
+      dryRun: Boolean(options['dry-run']),
+    });
+    return EXIT_OK;
+  },
+};
+
+const storageGc: CommandSpec = {
+  name: 'storage gc',
+  summary: 'Find (and delete) storage objects no photo references',
+  options: [
+    { name: 'prefix', type: 'string', valueName: '<prefix>', description: 'Objects to consider (default universities/, from the configured storage prefixes)' },
+    { name: 'min-age-hours', type: 'number', valueName: '<hours>', min: 0, description: 'Keep objects modified more recently (default 24)' },
+    { name: 'delete', type: 'boolean', description: 'Delete the orphaned objects (default: report only)' },
+    { name: 'yes', type: 'boolean', description: 'Don\'t ask for confirmation before deleting' },
+  ],
+  async run(options) {
+    const { collectStorageGarbage } = await import('../gcStorage');
+    await collectStorageGarbage({
+      ...(options['prefix'] !== undefined && { prefix: options['prefix'] as string }),
+      ...(options['min-age-hours'] !== undefined && { minAgeHours: options['min-age-hours'] as number }),
+      delete: Boolean(options['delete']),
+      yes: Boolean(options['yes']),
+    });
+    return EXIT_OK;
+  },
+};
+
+export const COMMANDS: CommandSpec[] = [
+  collectionsList,
+  exportCommand,
+  migrateCommand,
+  verifyCommand,
+  reconcileCommand,
+  rollbackCommand,
+  storageGc,
+];
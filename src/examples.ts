@@ -1,5 +1,6 @@
 // Example usage of Firestore query functions
 // This file demonstrates various ways to pull data from Firestore
+// (the export command of src/cli.ts covers the common cases without editing code)
 
 import "./services/client"; // Initialize Firebase Admin
 import {
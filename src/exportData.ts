@@ -1,64 +1,155 @@
-// Example script to export Firestore data to JSON
-// Run this file to start the migration process
+// Exports Firestore data to ./data (see the export command's --help for every mode)
 
 import "./services/client"; // Initialize Firebase Admin
 import {
-  getAllCollections,
+  DEFAULT_PAGE_SIZE,
   exportAllCollectionsToJson,
+  exportAllCollectionsToNdjson,
+  exportAllCollectionsWithSubcollections,
   exportCollectionToJson,
+  exportCollectionToNdjson,
   exportCollectionWithSubcollections,
-  getCollectionData,
+  getAllCollections,
   queryCollection,
+  QueryFilter,
   saveToJson,
+  SubcollectionLayout,
 } from "./services/fireStoreQueries";
 
-async function main() {
-  try {
-    console.log("Starting Firestore data export...\n");
+// Where exports go unless outputDir is given; filtered queries go to their own directory
+export const DEFAULT_EXPORT_DIR = "./data/collections";
+export const DEFAULT_QUERY_DIR = "./data/queries";
 
-    // Example 1: Get all collection names
-    console.log("=== Getting all collections ===");
-    const collections = await getAllCollections();
-    console.log("\n");
+export const QUERY_OPERATORS: FirebaseFirestore.WhereFilterOp[] = [
+  "<",
+  "<=",
+  "==",
+  "!=",
+  ">=",
+  ">",
+  "array-contains",
+  "array-contains-any",
+  "in",
+  "not-in",
+];
 
-    // Example 2: Export all collections to JSON
-    console.log("=== Exporting all collections ===");
-    await exportAllCollectionsToJson("./data/collections");
-    console.log("\n");
-
-    // Example 3: Export a specific collection (uncomment and replace 'collectionName')
-    // console.log("=== Exporting specific collection ===");
-    // await exportCollectionToJson("users", "./data/collections");
-    // console.log("\n");
+export interface ExportOptions {
+  // One collection instead of every top-level collection
+  collection?: string;
+  outputDir?: string;
+  // json keeps the old single-file JSON export; ndjson streams one document per line
+  format: "ndjson" | "json";
+  // Documents per Firestore query
+  pageSize: number;
+  // Write .ndjson.gz files
+  gzip: boolean;
+  // Write <collection>.changeset.json with only what changed since the last incremental export
+  incremental: boolean;
+  // Walk every subcollection recursively, in this layout
+  subcollections?: SubcollectionLayout;
+  // Deepest subcollection level to export
+  maxDepth?: number;
+  // Export only the documents of the collection matching every filter
+  where: QueryFilter[];
+}
 
-    // Example 4: Export collection with subcollections (uncomment and replace 'collectionName')
-    // console.log("=== Exporting collection with subcollections ===");
-    // await exportCollectionWithSubcollections("users", "./data/collections");
-    // console.log("\n");
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: "ndjson",
+  pageSize: DEFAULT_PAGE_SIZE,
+  gzip: false,
+  incremental: false,
+  where: [],
+};
 
-    // Example 5: Query specific documents with filters (uncomment and customize)
-    // console.log("=== Querying collection with filters ===");
-    // const filteredData = await queryCollection("users", [
-    //   { field: "status", operator: "==", value: "active" },
-    //   { field: "createdAt", operator: ">", value: new Date("2024-01-01") }
-    // ]);
-    // await saveToJson(filteredData, "filtered_users.json", "./data/queries");
-    // console.log("\n");
+/**
+ * Value of a filter as typed on the command line: JSON (numbers, booleans, null, arrays for in /
+ * array-contains-any), an ISO date ("2024-01-01", compared as a Timestamp), or else a plain string
+ */
+function parseFilterValue(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Not JSON
+  }
 
-    // Example 6: Get data from a specific collection programmatically
-    // console.log("=== Getting data from specific collection ===");
-    // const data = await getCollectionData("users");
-    // console.log(`Retrieved ${data.length} documents`);
-    // // Do something with the data...
-    // console.log("\n");
+  if (/^\d{4}-\d{2}-\d{2}([T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/.test(text) && !isNaN(Date.parse(text))) {
+    return new Date(text);
+  }
+  return text;
+}
 
-    console.log("✅ Data export completed successfully!");
-  } catch (error) {
-    console.error("❌ Error during data export:", error);
-    process.exit(1);
+/**
+ * Parses a filter written as "field,operator,value", e.g. "status,==,active" or "createdAt,>,2024-01-01"
+ */
+export function parseQueryFilter(text: string): QueryFilter {
+  const [field, operator, ...value] = text.split(",");
+  if (!field || !operator || value.length === 0) {
+    throw new Error(`Invalid filter "${text}" (expected field,operator,value)`);
   }
+  if (!QUERY_OPERATORS.includes(operator as FirebaseFirestore.WhereFilterOp)) {
+    throw new Error(`Invalid filter operator "${operator}" (expected one of ${QUERY_OPERATORS.join(" ")})`);
+  }
+
+  return {
+    field,
+    operator: operator as FirebaseFirestore.WhereFilterOp,
+    value: parseFilterValue(value.join(",")),
+  };
+}
+
+/**
+ * Print the names of every top-level collection
+ */
+export async function listCollections(): Promise<string[]> {
+  const collections = await getAllCollections();
+  collections.forEach((collection) => console.log(collection));
+  return collections;
 }
 
-// Run the main function
-main();
+/**
+ * Runs one export: every collection or one, optionally recursive, incremental or filtered
+ */
+export async function runExport(exportOptions: Partial<ExportOptions> = {}): Promise<void> {
+  const options = { ...DEFAULT_EXPORT_OPTIONS, ...exportOptions };
+  const { collection, pageSize, gzip, incremental, maxDepth } = options;
+  const outputDir = options.outputDir || (options.where.length > 0 ? DEFAULT_QUERY_DIR : DEFAULT_EXPORT_DIR);
 
+  console.log("Starting Firestore data export...\n");
+
+  if (options.where.length > 0) {
+    // Filtered query of one collection, saved as a plain JSON array
+    console.log(`=== Querying ${collection} ===`);
+    const documents = await queryCollection(collection!, options.where);
+    await saveToJson(documents, `${collection}_query.json`, outputDir);
+  } else if (options.subcollections) {
+    // Recursive export with a manifest of every collection path discovered
+    const layout = options.subcollections;
+    if (collection) {
+      console.log(`=== Exporting ${collection} with subcollections (${layout}) ===`);
+      await exportCollectionWithSubcollections(collection, outputDir, { layout, maxDepth, pageSize, gzip });
+    } else {
+      console.log(`=== Exporting all collections with subcollections (${layout}) ===`);
+      await exportAllCollectionsWithSubcollections(outputDir, { layout, maxDepth, pageSize, gzip });
+    }
+  } else if (collection) {
+    // A single collection doesn't rewrite manifest.json, which describes the whole export
+    console.log(`=== Exporting ${collection} (${incremental ? "changeset" : options.format}) ===`);
+    if (options.format === "json" || incremental) {
+      await exportCollectionToJson(collection, outputDir, { incremental, pageSize });
+    } else {
+      await exportCollectionToNdjson(collection, outputDir, { pageSize, gzip });
+    }
+    console.log(`⚠️  ${outputDir}/manifest.json was not updated; re-run a full export before migrating`);
+  } else if (incremental) {
+    console.log("=== Exporting changes since the last incremental export ===");
+    await exportAllCollectionsToJson(outputDir, { incremental, pageSize });
+  } else if (options.format === "json") {
+    console.log("=== Exporting all collections (json) ===");
+    await exportAllCollectionsToJson(outputDir, { pageSize });
+  } else {
+    console.log("=== Exporting all collections (ndjson) ===");
+    await exportAllCollectionsToNdjson(outputDir, { pageSize, gzip });
+  }
+
+  console.log("\n✅ Data export completed successfully!");
+}
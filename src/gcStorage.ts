@@ -0,0 +1,133 @@
+import { PrismaClient } from '../generated/prisma/client';
+import { PrismaPg } from '@prisma/adapter-pg';
+import { Pool } from 'pg';
+import * as dotenv from 'dotenv';
+import * as readline from 'readline';
+import { STORAGE_BUCKET } from './migration/config';
+import { variantPaths } from './migration/photos';
+import { saveReport } from './migration/reports';
+import { findOrphanedObjects, formatBytes, printOrphanReport, storageScanRoots } from './migration/storageGc';
+import { loadUniversityConfigs } from './migration/universities';
+import { createStorageBackend, StorageObject } from './services/storage';
+
+// Load environment variables
+dotenv.config();
+
+// Create PostgreSQL pool and adapter
+const pool = new Pool({ connectionString: process.env.DIRECT_URL });
+const adapter = new PrismaPg(pool);
+
+const prisma = new PrismaClient({
+  adapter,
+  log: ['warn', 'error'],
+});
+
+export interface StorageGcOptions {
+  // Only objects under this prefix are considered; by default, those under the fixed part of every
+  // configured university's storage prefix (universities/)
+  prefix?: string;
+  // Objects modified more recently than this are kept, so a migration in progress isn't undercut
+  minAgeHours: number;
+  // Report only unless set
+  delete: boolean;
+  // Skip the confirmation prompt before deleting
+  yes: boolean;
+}
+
+export const DEFAULT_STORAGE_GC_OPTIONS: StorageGcOptions = {
+  minAgeHours: 24,
+  delete: false,
+  yes: false,
+};
+
+/**
+ * Every storage path a photo in Postgres points at, including its variants
+ */
+async function loadReferencedPaths(): Promise<Set<string>> {
+  const photos = await prisma.photo.findMany({ select: { storagePath: true } });
+  const variants = await prisma.photoVariant.findMany({ select: { storagePath: true } });
+  
+  return new Set([
+    ...photos.flatMap(photo => [photo.storagePath, ...variantPaths(photo.storagePath)]),
+    ...variants.map(variant => variant.storagePath),
+  ]);
+}
+
+/**
+ * Objects uploaded by runs that are still marked as running; their photo rows may not exist yet
+ */
+async function loadInFlightPaths(): Promise<Set<string>> {
+  const objects = await prisma.migrationRunObject.findMany({
+    where: { bucket: STORAGE_BUCKET, run: { status: 'running' } },
+    select: { storagePath: true },
+  });
+  return new Set(objects.map(object => object.storagePath));
+}
+
+/**
+ * Ask on the terminal; resolves to true only for "y" / "yes"
+ */
+function confirm(question: string): Promise<boolean> {
+  const prompt = readline.createInterface({ input: process.stdin, output: process.stdout });
+  return new Promise(resolve => {
+    prompt.question(question, answer => {
+      prompt.close();
+      resolve(['y', 'yes'].includes(answer.trim().toLowerCase()));
+    });
+  });
+}
+
+/**
+ * Find storage objects no photo references and, when asked to and confirmed, delete them
+ */
+export async function collectStorageGarbage(gcOptions: Partial<StorageGcOptions> = {}): Promise<void> {
+  const { prefix, minAgeHours, delete: deleteOrphans, yes: assumeYes } = { ...DEFAULT_STORAGE_GC_OPTIONS, ...gcOptions };
+  const storage = createStorageBackend(STORAGE_BUCKET);
+  
+  try {
+    const prefixes = prefix !== undefined
+      ? [prefix]
+      : storageScanRoots(loadUniversityConfigs().map(config => config.storagePrefix));
+    
+    const objects = new Map<string, StorageObject>();
+    for (const scanned of prefixes) {
+      console.log(`🔍 Listing objects under ${STORAGE_BUCKET}/${scanned}...`);
+      (await storage.list(scanned)).forEach(object => objects.set(object.path, object));
+    }
+    const referenced = await loadReferencedPaths();
+    const inFlight = await loadInFlightPaths();
+    
+    const report = findOrphanedObjects(
+      STORAGE_BUCKET,
+      prefixes,
+      [...objects.values()],
+      referenced,
+      inFlight,
+      minAgeHours * 60 * 60 * 1000
+    );
+    printOrphanReport(report);
+    console.log(`\nReport saved to ${saveReport('storage-gc', report)}`);
+    
+    if (report.orphans.length === 0) {
+      console.log('\n✅ Nothing to collect');
+      return;
+    }
+    
+    if (!deleteOrphans) {
+      console.log('\n🔍 Dry run: nothing was deleted (pass --delete to remove the orphaned objects)');
+      return;
+    }
+    
+    const question = `\nDelete ${report.orphans.length} objects (${formatBytes(report.orphanBytes)}) from '${STORAGE_BUCKET}'? [y/N] `;
+    if (!assumeYes && !(await confirm(question))) {
+      console.log('Aborted: nothing was deleted');
+      return;
+    }
+    
+    await storage.delete(report.orphans.map(object => object.path));
+    console.log(`✅ Deleted ${report.orphans.length} objects, freeing ${formatBytes(report.orphanBytes)}`);
+  } finally {
+    await prisma.$disconnect();
+    await pool.end();
+  }
+}
@@ -1,559 +1,1411 @@
-import { PrismaClient } from '../generated/prisma/client';
+import { Prisma, PrismaClient } from '../generated/prisma/client';
 import { PrismaPg } from '@prisma/adapter-pg';
 import { Pool } from 'pg';
-import * as fs from 'fs';
-import * as path from 'path';
-import axios from 'axios';
-import sharp from 'sharp';
 import * as dotenv from 'dotenv';
-import { createClient } from '@supabase/supabase-js';
+import { IMAGE_VARIANTS, PRIMARY_VARIANT, STORAGE_BUCKET, STRUCTURE_TRANSACTION_TIMEOUT_MS } from './migration/config';
+import { createStorageBackend, StorageBackend } from './services/storage';
+import {
+  clearCheckpoint,
+  completeStep,
+  createCheckpoint,
+  loadCheckpoint,
+  MIGRATION_STEPS,
+  MigrationCheckpoint,
+  MigrationStep,
+  saveCheckpoint,
+} from './migration/checkpoint';
+import {
+  BuildingResolver,
+  DEFAULT_MATCH_THRESHOLD,
+  printBuildingReview,
+  unresolvedBuildingMessage,
+} from './migration/buildings';
+import { DEFAULT_BATCH_SIZE, differsFrom, writeInBatches } from './migration/batchWrites';
+import { DEFAULT_RETRY_OPTIONS, RetryExhaustedError, runPool, withRetry } from './migration/concurrency';
+import {
+  createImageVariants,
+  downloadImage,
+  FailedPhoto,
+  PHOTO_OWNERS,
+  PhotoJob,
+  variantPath,
+  variantPaths,
+} from './migration/photos';
+import { RunStatus } from './migration/ledger';
+import { createLogger, isJsonLogging, Logger, serializeError } from './migration/logger';
+import {
+  CollectionMapping,
+  CollectionMappings,
+  documentLabel,
+  loadCollectionMappings,
+  mapDocument,
+  mappedCollections,
+  mappingNoun,
+  modelColumns,
+  modelDelegate,
+  photoUrls,
+  referencedBuildings,
+} from './migration/mappings';
+import { buildMigrationPlan, printMigrationPlan, saveMigrationPlan } from './migration/plan';
+import { saveReport } from './migration/reports';
+import { createErrorRecord, EntityType, MigrationErrorRecord, RunReport, saveRunReport } from './migration/runReport';
+import {
+  CHANGESET_MANIFEST_FILE,
+  loadExportManifest,
+  MANIFEST_FILE,
+  printManifestVerification,
+} from './services/exportManifest';
+import { markChangesetsApplied } from './services/exportState';
+import { RoomData, StudyRoomData, verifySourceData } from './migration/sourceData';
+import {
+  createExportSource,
+  createFirestoreSource,
+  DEFAULT_EMULATOR_HOST,
+  MigrationSource,
+  SourceKind,
+} from './migration/sources';
+import {
+  loadUniversityConfigs,
+  resolveDataDir,
+  resolveStoragePrefix,
+  UniversityConfig,
+} from './migration/universities';
+import { printValidationReports, validateSourceData } from './migration/validation';
+import {
+  countUnmapped,
+  loadVocabularies,
+  printNormalizationReport,
+  VocabularyNormalizer,
+} from './migration/vocabularies';
 
 // Load environment variables
 dotenv.config();
 
-// Create PostgreSQL pool and adapter
-const pool = new Pool({ connectionString: process.env.DIRECT_URL });
+// Create PostgreSQL pool and adapter (DATABASE_POOL_SIZE caps its connections, e.g. at 1 for embedded Postgres)
+const pool = new Pool({
+  connectionString: process.env.DIRECT_URL,
+  max: Number(process.env.DATABASE_POOL_SIZE) || undefined,
+});
 const adapter = new PrismaPg(pool);
 
-const prisma = new PrismaClient({
+// Exported so tests can check what a run wrote through the same connections
+export const prisma = new PrismaClient({
   adapter,
   log: ['warn', 'error'],
 });
 
-// Initialize Supabase client
-const supabaseUrl = process.env.SUPABASE_URL || 'https://mnyqhpnsoedlbdnbapjv.supabase.co';
-const supabaseKey = process.env.SUPABASE_SERVICE_KEY || process.env.SUPABASE_KEY || process.env.SUPABASE_ANON_KEY;
-
-if (!supabaseKey) {
-  console.error('❌ ERROR: Supabase key not found in environment variables.');
-  console.error('Please add one of the following to your .env file:');
-  console.error('  - SUPABASE_SERVICE_KEY (recommended for migrations)');
-  console.error('  - SUPABASE_KEY');
-  console.error('  - SUPABASE_ANON_KEY');
-  process.exit(1);
-}
-
-const supabase = createClient(supabaseUrl, supabaseKey);
-const STORAGE_BUCKET = 'occupeye-photos';
-
-// Types for JSON data
-interface StudyRoomData {
-  id: string;
-  name: string;
-  building: string;
-  spaceType?: string;
-  location: string;
-  imageURL?: string[];
-  features: string[];
-  noiseLevel: string;
-  capacity?: number;
-  description: string;
-}
-
-interface RoomData {
-  id: string;
-  building: string;
-  photos: string[];
-  room: string;
-  information: {
-    av_inputs: string;
-    pc: string;
-    whiteboard: string;
-    projector: string;
-  };
+// Storage backend (STORAGE_DRIVER), created on first use so dry runs don't need credentials
+let storageBackend: StorageBackend | null = null;
+
+function getStorage(): StorageBackend {
+  if (!storageBackend) {
+    storageBackend = createStorageBackend(STORAGE_BUCKET);
+  }
+  return storageBackend;
 }
 
-// Building name normalization map
-const buildingNameMap: Record<string, string> = {
-  'Peters': 'Peters Building',
-  'Peters Building': 'Peters Building',
-  'Lazaridis Hall': 'Lazaridis Hall',
-  'Science Building': 'Science Building',
-  'Science & Research': 'Science Building',
-  'Dr. Alvin Woods Building': 'Dr. Alvin Woods Building',
-  'Fred Nichols Campus Center': 'Fred Nichols Campus Center',
-  'Fred Nichols Campus Centre': 'Fred Nichols Campus Center',
-  'Schlegel': 'Schlegel Building',
-  'Schlegel Building': 'Schlegel Building',
-  'Bricker Academic Building': 'Bricker Academic Building',
-  'University Library': 'University Library',
-  'Arts': 'Arts Building',
-  'Arts Building': 'Arts Building',
-  'MLU': 'Martin Luther University College',
+/**
+ * What to do with rows whose Firestore document no longer exists:
+ * - none: leave them untouched
+ * - flag: set sourceRemovedAt so the app can hide them
+ * - delete: remove the rows (and their photos) entirely
+ */
+export type PruneMode = 'none' | 'flag' | 'delete';
+
+// Source IDs whose rows count as removed: absent from a full export, or listed as deleted by a changeset
+type RemovedSourceIds = { notIn: string[] } | { in: string[] };
+
+// Steps whose results a step needs; they run whenever it does
+const STEP_DEPENDENCIES: Record<MigrationStep, MigrationStep[]> = {
+  university: [],
+  buildings: ['university'],
+  studySpots: ['buildings'],
+  lectureHalls: ['buildings'],
+  collections: ['buildings'],
+  // Photos and pruning need the IDs of both kinds of rooms
+  photos: ['studySpots', 'lectureHalls'],
+  prune: ['photos'],
 };
 
-// Stats tracking
-const stats = {
-  university: 0,
-  buildings: 0,
-  studySpots: 0,
-  lectureHalls: 0,
-  photos: 0,
-  errors: [] as string[],
+/**
+ * Options of a migration (see the migrate command's --help)
+ */
+export interface MigrateOptions {
+  // Compute and report the plan without writing to Postgres or Storage
+  dryRun: boolean;
+  // Configured universities to migrate (empty: all)
+  universities: string[];
+  // Steps to run (empty: all); the steps they depend on run too
+  steps: MigrationStep[];
+  // Read source documents from the export directory (default), live Firestore or the emulator
+  source: SourceKind;
+  // Emulator address with source 'emulator' (default FIRESTORE_EMULATOR_HOST, then localhost:8080)
+  emulatorHost: string | null;
+  // Rows per insert in the building, study spot and lecture hall steps
+  batchSize: number;
+  // Photo pipeline tuning: workers, and retries per stage
+  photoConcurrency: number;
+  photoRetries: number;
+  // Building names that can't be resolved are refused unless this is set
+  createUnknownBuildings: boolean;
+  // Continue from the checkpoint of an interrupted run instead of starting over
+  resume: boolean;
+  // Skip invalid source documents instead of aborting
+  lenient: boolean;
+  // Don't check exports against their manifest.json (for hand-made data directories)
+  skipVerify: boolean;
+  // Apply the <collection>.changeset.json files of an incremental export instead of full exports
+  applyChangeset: boolean;
+  pruneMode: PruneMode;
+}
+
+export const DEFAULT_MIGRATE_OPTIONS: MigrateOptions = {
+  dryRun: false,
+  universities: [],
+  steps: [],
+  source: 'export',
+  emulatorHost: null,
+  batchSize: DEFAULT_BATCH_SIZE,
+  photoConcurrency: 4,
+  photoRetries: DEFAULT_RETRY_OPTIONS.retries,
+  createUnknownBuildings: false,
+  resume: false,
+  lenient: false,
+  skipVerify: false,
+  applyChangeset: false,
+  pruneMode: 'none',
 };
 
+let options: MigrateOptions = DEFAULT_MIGRATE_OPTIONS;
+
+/**
+ * The selected steps plus everything they depend on, in run order
+ */
+export function resolveSteps(selected: MigrationStep[]): MigrationStep[] {
+  if (selected.length === 0) return MIGRATION_STEPS;
+  
+  const steps = new Set<MigrationStep>();
+  const add = (step: MigrationStep) => {
+    if (steps.has(step)) return;
+    steps.add(step);
+    STEP_DEPENDENCIES[step].forEach(add);
+  };
+  selected.forEach(add);
+  return MIGRATION_STEPS.filter(step => steps.has(step));
+}
+
+// Stats tracking, reset for every university
+function createStats() {
+  return {
+    university: 0,
+    buildings: 0,
+    studySpots: 0,
+    lectureHalls: 0,
+    collections: {} as Record<string, number>,
+    photos: 0,
+    photosUnchanged: 0,
+    failedPhotos: [] as FailedPhoto[],
+    removed: {
+      studySpots: 0,
+      lectureHalls: 0,
+      photos: 0,
+    },
+    errors: [] as MigrationErrorRecord[],
+  };
+}
+
+let stats = createStats();
+
+// Collection mappings, loaded for every university
+let mappings: CollectionMappings;
+
+// Canonical vocabularies of the university being migrated, and every term they were asked about
+let normalizer = new VocabularyNormalizer();
+
+// Run-wide logger, and the one bound to the university and run being migrated
+const rootLog = createLogger();
+let log: Logger = rootLog;
+
+/**
+ * Record something that failed, with the entity it concerns, and log it
+ */
+function recordError(
+  step: MigrationStep,
+  entityType: EntityType,
+  ids: { sourceId?: string | null; targetId?: string | null },
+  message: string,
+  error: unknown
+): void {
+  const record = createErrorRecord(step, entityType, ids, message, error);
+  stats.errors.push(record);
+  log.error(`❌ ${message}: ${error}`, { step, entityType, sourceId: record.sourceId, targetId: record.targetId, error });
+}
+
+// MigrationRun of the university being migrated; every row it creates and object it uploads is tagged with it
+let runId: string;
+
 /**
  * Create storage bucket if it doesn't exist
  */
 async function ensureStorageBucket(): Promise<void> {
-  console.log('\n🪣 Checking Storage Bucket...');
+  const storage = getStorage();
+  log.info(`\n🪣 Checking Storage Bucket '${storage.bucket}' (${storage.driver})...`);
   
   try {
-    // Check if bucket exists
-    const { data: buckets, error: listError } = await supabase.storage.listBuckets();
-    
-    if (listError) {
-      throw new Error(`Failed to list buckets: ${listError.message}`);
-    }
-    
-    const bucketExists = buckets?.some(bucket => bucket.name === STORAGE_BUCKET);
-    
-    if (bucketExists) {
-      console.log(`✅ Bucket '${STORAGE_BUCKET}' already exists`);
-      return;
-    }
-    
-    // Create bucket
-    console.log(`📦 Creating bucket '${STORAGE_BUCKET}'...`);
-    const { error: createError } = await supabase.storage.createBucket(STORAGE_BUCKET, {
-      public: true,
-      fileSizeLimit: 10485760, // 10MB
-      allowedMimeTypes: ['image/webp', 'image/jpeg', 'image/png', 'image/jpg']
-    });
-    
-    if (createError) {
-      throw new Error(`Failed to create bucket: ${createError.message}`);
-    }
-    
-    console.log(`✅ Created bucket '${STORAGE_BUCKET}' successfully`);
+    await storage.ensureBucket();
+    log.info(`✅ Bucket '${storage.bucket}' is ready`);
   } catch (error) {
     throw new Error(`Storage bucket setup failed: ${error}`);
   }
 }
 
 /**
- * Clear all existing data from database
+ * Upload image to the configured storage backend and return its public URL
  */
-async function clearExistingData(): Promise<void> {
-  console.log('\n🗑️  Clearing Existing Data...');
+async function uploadPhoto(
+  buffer: Buffer,
+  storagePath: string,
+  contentType: string
+): Promise<string> {
+  const storage = getStorage();
   
   try {
-    // Delete in correct order due to foreign key constraints
-    const photoCount = await prisma.photo.deleteMany();
-    console.log(`  Deleted ${photoCount.count} photos`);
-    
-    const studySpotCount = await prisma.studySpot.deleteMany();
-    console.log(`  Deleted ${studySpotCount.count} study spots`);
-    
-    const lectureHallCount = await prisma.lectureHall.deleteMany();
-    console.log(`  Deleted ${lectureHallCount.count} lecture halls`);
-    
-    const buildingCount = await prisma.building.deleteMany();
-    console.log(`  Deleted ${buildingCount.count} buildings`);
-    
-    const universityCount = await prisma.university.deleteMany();
-    console.log(`  Deleted ${universityCount.count} universities`);
-    
-    console.log('✅ All existing data cleared');
+    await storage.put(storagePath, buffer, contentType);
+    return storage.publicUrl(storagePath);
   } catch (error) {
-    throw new Error(`Failed to clear existing data: ${error}`);
+    throw new Error(`Failed to upload to ${storage.driver} storage: ${error}`);
   }
 }
 
 /**
- * Normalize building name to consistent format
+ * Record an object uploaded by the current run in the ledger, so a rollback can delete it
  */
-function normalizeBuildingName(name: string): string {
-  return buildingNameMap[name] || name;
+async function recordUploadedObject(storagePath: string): Promise<void> {
+  await prisma.migrationRunObject.createMany({
+    data: [{ runId, bucket: STORAGE_BUCKET, storagePath }],
+    skipDuplicates: true,
+  });
 }
 
 /**
- * Download image from URL
+ * Start a MigrationRun for a university, or continue the one an interrupted run recorded in its checkpoint
  */
-async function downloadImage(url: string): Promise<Buffer> {
-  try {
-    const response = await axios.get(url, {
-      responseType: 'arraybuffer',
-      timeout: 30000, // 30 second timeout
+async function startRun(
+  config: UniversityConfig,
+  source: MigrationSource,
+  checkpoint: MigrationCheckpoint
+): Promise<string> {
+  const manifest = source.dataDir
+    ? loadExportManifest(source.dataDir, options.applyChangeset ? CHANGESET_MANIFEST_FILE : MANIFEST_FILE)
+    : null;
+  const run = {
+    status: 'running' as RunStatus,
+    manifest: (manifest ?? undefined) as Prisma.InputJsonValue | undefined,
+    config: {
+      university: { ...config },
+      flags: { ...options },
+    } as Prisma.InputJsonValue,
+  };
+  
+  if (checkpoint.runId) {
+    await prisma.migrationRun.update({
+      where: { id: checkpoint.runId },
+      data: { status: run.status, finishedAt: null, error: null },
     });
-    return Buffer.from(response.data);
-  } catch (error) {
-    throw new Error(`Failed to download image from ${url}: ${error}`);
-  }
-}
-
-/**
- * Optimize image: convert to WebP and resize to 30% of original
- */
-async function optimizeImage(buffer: Buffer): Promise<Buffer> {
-  try {
-    const image = sharp(buffer);
-    const metadata = await image.metadata();
-    
-    const newWidth = Math.round((metadata.width || 1000) * 0.3);
-    const newHeight = Math.round((metadata.height || 1000) * 0.3);
-    
-    return await image
-      .resize(newWidth, newHeight)
-      .webp({ quality: 85 })
-      .toBuffer();
-  } catch (error) {
-    throw new Error(`Failed to optimize image: ${error}`);
+    log.info(`📒 Continuing migration run ${checkpoint.runId}`);
+    return checkpoint.runId;
   }
+  
+  const created = await prisma.migrationRun.create({
+    data: { ...run, university: config.slug },
+  });
+  checkpoint.runId = created.id;
+  saveCheckpoint(checkpoint);
+  log.info(`📒 Recording migration run ${created.id}`);
+  return created.id;
 }
 
 /**
- * Upload image to Supabase Storage
+ * Record how a run ended, with its stats
  */
-async function uploadToSupabase(
-  buffer: Buffer,
-  storagePath: string
-): Promise<string> {
-  try {
-    const { data, error } = await supabase.storage
-      .from(STORAGE_BUCKET)
-      .upload(storagePath, buffer, {
-        contentType: 'image/webp',
-        upsert: true,
-      });
-    
-    if (error) {
-      throw new Error(`Supabase upload error: ${error.message}`);
-    }
-    
-    // Get public URL
-    const { data: { publicUrl } } = supabase.storage
-      .from(STORAGE_BUCKET)
-      .getPublicUrl(storagePath);
-    
-    return publicUrl;
-  } catch (error) {
-    throw new Error(`Failed to upload to Supabase: ${error}`);
-  }
+async function finishRun(status: RunStatus, error?: unknown): Promise<void> {
+  await prisma.migrationRun.update({
+    where: { id: runId },
+    data: {
+      status,
+      finishedAt: new Date(),
+      summary: JSON.parse(JSON.stringify(stats)),
+      error: error === undefined ? null : `${error}`,
+    },
+  });
 }
 
 /**
- * Step 1: Create University Record
+ * Step 1: Upsert University Record (keyed on slug)
  */
-async function createUniversity(): Promise<string> {
-  console.log('\n📚 Step 1: Creating University...');
+export async function createUniversity(db: Prisma.TransactionClient, config: UniversityConfig): Promise<string> {
+  log.info('\n📚 Step 1: Upserting University...');
   
-  const university = await prisma.university.create({
-    data: {
-      name: 'Wilfrid Laurier University',
-      slug: 'wilfrid-laurier',
+  const university = await db.university.upsert({
+    where: { slug: config.slug },
+    update: {
+      name: config.name,
+    },
+    create: {
+      name: config.name,
+      slug: config.slug,
+      migrationRunId: runId,
     },
   });
   
   stats.university = 1;
-  console.log(`✅ Created university: ${university.name} (ID: ${university.id})`);
+  log.info(`✅ Upserted university: ${university.name} (ID: ${university.id})`, {
+    step: 'university',
+    entityType: 'University',
+    sourceId: config.slug,
+    targetId: university.id,
+  });
   return university.id;
 }
 
 /**
- * Step 2: Extract and Create Buildings
+ * Step 2: Upsert Buildings (keyed on university + canonical name)
+ * Only names the resolver could resolve are created. Existing buildings are looked up and the
+ * missing ones inserted one chunk at a time.
  */
-async function createBuildings(universityId: string): Promise<Map<string, string>> {
-  console.log('\n🏢 Step 2: Creating Buildings...');
+export async function createBuildings(
+  db: Prisma.TransactionClient,
+  universityId: string,
+  buildingNames: Set<string>
+): Promise<Map<string, string>> {
+  log.info('\n🏢 Step 2: Upserting Buildings...');
   
-  // Load JSON files
-  const studyRoomsPath = path.join(__dirname, '../data/collections/study-rooms.json');
-  const roomsPath = path.join(__dirname, '../data/collections/rooms.json');
+  const buildingMap = new Map<string, string>();
+  const upserted = (name: string, id: string) => {
+    buildingMap.set(name, id);
+    stats.buildings++;
+    log.info(`✅ Upserted building: ${name}`, { step: 'buildings', entityType: 'Building', sourceId: name, targetId: id });
+  };
   
-  const studyRooms: StudyRoomData[] = JSON.parse(fs.readFileSync(studyRoomsPath, 'utf-8'));
-  const rooms: RoomData[] = JSON.parse(fs.readFileSync(roomsPath, 'utf-8'));
+  await writeInBatches(
+    db,
+    [...buildingNames],
+    options.batchSize,
+    async batch => {
+      const existing = await db.building.findMany({
+        where: { universityId, name: { in: batch } },
+        select: { id: true, name: true },
+      });
+      const known = new Set(existing.map(building => building.name));
+      const created = await db.building.createManyAndReturn({
+        data: batch.filter(name => !known.has(name)).map(name => ({ name, universityId, migrationRunId: runId })),
+        select: { id: true, name: true },
+      });
+      [...existing, ...created].forEach(building => upserted(building.name, building.id));
+    },
+    async name => {
+      const building = await db.building.upsert({
+        where: { universityId_name: { universityId, name } },
+        update: {},
+        create: { name, universityId, migrationRunId: runId },
+      });
+      upserted(name, building.id);
+    },
+    (name, error) => recordError('buildings', 'Building', { sourceId: name }, `Failed to upsert building ${name}`, error),
+    log.child({ step: 'buildings', entityType: 'Building' })
+  );
   
-  // Extract unique building names
-  const buildingNames = new Set<string>();
+  return buildingMap;
+}
+
+/**
+ * ID of the building a raw source name resolves to; throws if it doesn't resolve or wasn't created
+ */
+function resolveBuildingId(rawName: string, buildingMap: Map<string, string>, resolver: BuildingResolver): string {
+  const resolution = resolver.resolve(rawName);
+  if (!resolution.building) {
+    throw new Error(unresolvedBuildingMessage(resolution));
+  }
   
-  studyRooms.forEach(room => {
-    if (room.building) {
-      buildingNames.add(normalizeBuildingName(room.building));
-    }
-  });
+  const buildingId = buildingMap.get(resolution.building);
+  if (!buildingId) {
+    throw new Error(`Building not found: ${resolution.building}`);
+  }
+  return buildingId;
+}
+
+// A row to upsert by its Firestore document ID
+interface SourceRow<Data> {
+  sourceId: string;
+  label: string;
+  data: Data;
+}
+
+// How to read and write one model keyed on sourceId (StudySpot, LectureHall)
+interface SourceKeyedModel<Data> {
+  findExisting(sourceIds: string[]): Promise<({ id: string; sourceId: string | null } & Record<string, unknown>)[]>;
+  createMany(rows: SourceRow<Data>[]): Promise<{ id: string; sourceId: string | null }[]>;
+  update(id: string, data: Data): Promise<unknown>;
+  upsert(row: SourceRow<Data>): Promise<{ id: string }>;
+}
+
+/**
+ * Upsert rows keyed on sourceId in chunks: one query finds the existing rows of a chunk, one inserts
+ * the new ones, and existing rows are only updated when a field actually changed.
+ * Returns source ID -> row ID for every row written.
+ */
+async function upsertBySourceId<Data extends Record<string, unknown>>(
+  db: Prisma.TransactionClient,
+  step: MigrationStep,
+  entityType: EntityType,
+  noun: string,
+  rows: SourceRow<Data>[],
+  model: SourceKeyedModel<Data>
+): Promise<Map<string, string>> {
+  const idMap = new Map<string, string>();
+  const upserted = (row: SourceRow<Data>, id: string) => {
+    idMap.set(row.sourceId, id);
+    log.info(`✅ Upserted ${noun}: ${row.label}`, { step, entityType, sourceId: row.sourceId, targetId: id });
+  };
   
-  rooms.forEach(room => {
-    if (room.building) {
-      buildingNames.add(normalizeBuildingName(room.building));
-    }
-  });
+  await writeInBatches(
+    db,
+    rows,
+    options.batchSize,
+    async batch => {
+      const existing = new Map((await model.findExisting(batch.map(row => row.sourceId))).map(row => [row.sourceId!, row]));
+      
+      const created = new Map(
+        (await model.createMany(batch.filter(row => !existing.has(row.sourceId)))).map(row => [row.sourceId!, row.id])
+      );
+      // Prisma has no bulk update with a different value per row, so changed rows are updated one at a time
+      for (const row of batch) {
+        const current = existing.get(row.sourceId);
+        if (current && differsFrom(current, row.data)) {
+          await model.update(current.id, row.data);
+        }
+      }
+      
+      batch.forEach(row => upserted(row, existing.get(row.sourceId)?.id ?? created.get(row.sourceId)!));
+    },
+    async row => upserted(row, (await model.upsert(row)).id),
+    (row, error) => recordError(step, entityType, { sourceId: row.sourceId }, `Failed to upsert ${noun} ${row.label}`, error),
+    log.child({ step, entityType })
+  );
   
-  // Create building records
-  const buildingMap = new Map<string, string>();
+  return idMap;
+}
+
+/**
+ * Upsert the documents of a mapped collection into its model (keyed on the university and Firestore document ID).
+ * Documents that can't be mapped, e.g. because their building doesn't resolve, are recorded and skipped.
+ */
+async function migrateCollection(
+  db: Prisma.TransactionClient,
+  step: MigrationStep,
+  universityId: string,
+  mapping: CollectionMapping,
+  documents: unknown[],
+  buildingMap: Map<string, string>,
+  resolver: BuildingResolver
+): Promise<Map<string, string>> {
+  const noun = mappingNoun(mapping);
+  const lookups = {
+    building: (rawName: string) => resolveBuildingId(rawName, buildingMap, resolver),
+    term: (vocabulary: string, term: string, sourceId: string) => normalizer.normalize(vocabulary, term, sourceId),
+  };
+  // A row whose document is back in the source is no longer flagged as removed
+  const restored = modelColumns(mapping.model).includes('sourceRemovedAt') ? { sourceRemovedAt: null } : {};
   
-  for (const buildingName of buildingNames) {
+  const rows = [];
+  for (const document of documents) {
     try {
-      const building = await prisma.building.create({
-        data: {
-          name: buildingName,
-          universityId,
-        },
-      });
-      
-      buildingMap.set(buildingName, building.id);
-      stats.buildings++;
-      console.log(`✅ Created building: ${buildingName}`);
+      const mapped = mapDocument(mapping, document, lookups);
+      rows.push({ ...mapped, data: { ...mapped.data, ...restored } });
     } catch (error) {
-      const errorMsg = `Failed to create building ${buildingName}: ${error}`;
-      stats.errors.push(errorMsg);
-      console.error(`❌ ${errorMsg}`);
+      const sourceId = (document as { id?: unknown })?.id;
+      recordError(
+        step,
+        mapping.model,
+        { sourceId: typeof sourceId === 'string' ? sourceId : null },
+        `Failed to upsert ${noun} ${documentLabel(mapping, document)}`,
+        error
+      );
     }
   }
   
-  return buildingMap;
+  // Another university's project may use the same document IDs
+  const source = { sourceUniversityId: universityId };
+  const model = modelDelegate(db, mapping.model);
+  return upsertBySourceId(db, step, mapping.model, noun, rows, {
+    findExisting: sourceIds => model.findMany({ where: { ...source, sourceId: { in: sourceIds } } }),
+    createMany: batch => model.createManyAndReturn({
+      data: batch.map(row => ({ ...row.data, ...source, sourceId: row.sourceId, migrationRunId: runId })),
+      select: { id: true, sourceId: true },
+    }),
+    update: (id, data) => model.update({ where: { id }, data }),
+    upsert: row => model.upsert({
+      where: { sourceUniversityId_sourceId: { ...source, sourceId: row.sourceId } },
+      update: row.data,
+      create: { ...row.data, ...source, sourceId: row.sourceId, migrationRunId: runId },
+    }),
+  });
 }
 
 /**
- * Step 3: Migrate Study Spots
+ * Step 3: Migrate Study Spots (mapped by config/mappings/study-rooms.json)
  */
-async function migrateStudySpots(
-  buildingMap: Map<string, string>
+export async function migrateStudySpots(
+  db: Prisma.TransactionClient,
+  universityId: string,
+  buildingMap: Map<string, string>,
+  studyRooms: StudyRoomData[],
+  resolver: BuildingResolver
 ): Promise<Map<string, string>> {
-  console.log('\n📖 Step 3: Migrating Study Spots...');
+  log.info('\n📖 Step 3: Migrating Study Spots...');
   
-  const studyRoomsPath = path.join(__dirname, '../data/collections/study-rooms.json');
-  const studyRooms: StudyRoomData[] = JSON.parse(fs.readFileSync(studyRoomsPath, 'utf-8'));
+  const studySpotMap = await migrateCollection(db, 'studySpots', universityId, mappings.studyRooms, studyRooms, buildingMap, resolver);
+  stats.studySpots = studySpotMap.size;
+  return studySpotMap;
+}
+
+/**
+ * Step 4: Migrate Lecture Halls (mapped by config/mappings/rooms.json)
+ */
+export async function migrateLectureHalls(
+  db: Prisma.TransactionClient,
+  universityId: string,
+  buildingMap: Map<string, string>,
+  rooms: RoomData[],
+  resolver: BuildingResolver
+): Promise<Map<string, string>> {
+  log.info('\n🎓 Step 4: Migrating Lecture Halls...');
   
-  const studySpotMap = new Map<string, string>();
+  const lectureHallMap = await migrateCollection(db, 'lectureHalls', universityId, mappings.rooms, rooms, buildingMap, resolver);
+  stats.lectureHalls = lectureHallMap.size;
+  return lectureHallMap;
+}
+
+/**
+ * Step 4b: Migrate every other collection with a mapping config.
+ * Returns collection -> source ID -> row ID.
+ */
+async function migrateCollections(
+  db: Prisma.TransactionClient,
+  universityId: string,
+  buildingMap: Map<string, string>,
+  collections: Map<string, unknown[]>,
+  resolver: BuildingResolver
+): Promise<Record<string, Record<string, string>>> {
+  const idMaps: Record<string, Record<string, string>> = {};
   
-  for (const room of studyRooms) {
-    try {
-      const normalizedBuilding = normalizeBuildingName(room.building);
-      const buildingId = buildingMap.get(normalizedBuilding);
-      
-      if (!buildingId) {
-        throw new Error(`Building not found: ${normalizedBuilding}`);
-      }
-      
-      const studySpot = await prisma.studySpot.create({
-        data: {
-          name: room.name,
-          buildingId,
-          location: room.location,
-          description: room.description,
-          features: room.features,
-          noiseLevel: room.noiseLevel,
-          spaceType: room.spaceType || null,
-        },
-      });
-      
-      studySpotMap.set(room.id, studySpot.id);
-      stats.studySpots++;
-      console.log(`✅ Created study spot: ${room.name}`);
-    } catch (error) {
-      const errorMsg = `Failed to create study spot ${room.name}: ${error}`;
-      stats.errors.push(errorMsg);
-      console.error(`❌ ${errorMsg}`);
+  for (const mapping of mappings.additional) {
+    log.info(`\n🗂️  Step 4b: Migrating ${mapping.collection} into ${mapping.model}...`);
+    const idMap = await migrateCollection(
+      db,
+      'collections',
+      universityId,
+      mapping,
+      collections.get(mapping.collection) || [],
+      buildingMap,
+      resolver
+    );
+    stats.collections[mapping.collection] = idMap.size;
+    idMaps[mapping.collection] = Object.fromEntries(idMap);
+  }
+  
+  return idMaps;
+}
+
+/**
+ * Download, resize into variants, upload and upsert a single photo (keyed on storage path).
+ * Skips the download entirely when the stored photo already came from the same source URL
+ * and has every configured variant.
+ * Each network stage is retried on its own, so a flaky upload doesn't redo the download.
+ */
+async function syncPhoto(job: PhotoJob): Promise<boolean> {
+  const { sourceUrl, storagePath, owner } = job;
+  const retry = { ...DEFAULT_RETRY_OPTIONS, retries: options.photoRetries };
+  
+  const existing = await withRetry('lookup', () => prisma.photo.findUnique({
+    where: { storagePath },
+    include: { variants: true },
+  }), retry);
+  
+  if (
+    existing &&
+    existing.sourceUrl === sourceUrl &&
+    !existing.sourceRemovedAt &&
+    existing.variants.length === IMAGE_VARIANTS.length
+  ) {
+    return false;
+  }
+  
+  log.info(`  Downloading: ${sourceUrl.substring(0, 80)}...`, { step: 'photos', sourceUrl });
+  const imageBuffer = await withRetry('download', () => downloadImage(sourceUrl), retry);
+  
+  // Resizing is deterministic, so a failure here is not worth retrying
+  const image = await withRetry('optimize', () => createImageVariants(imageBuffer), { ...retry, retries: 0 });
+  
+  // Objects at paths that already held one are overwritten, not created, so a rollback leaves them alone
+  const existingPaths = new Set(existing?.variants.map(variant => variant.storagePath) || []);
+  
+  const variants: Prisma.PhotoVariantCreateWithoutPhotoInput[] = [];
+  for (const variant of image.variants) {
+    const path = variantPath(storagePath, variant.name);
+    log.info(`  Uploading to: ${path}`, { step: 'photos', storagePath: path });
+    const url = await withRetry('upload', () => uploadPhoto(variant.buffer, path, variant.mimeType), retry);
+    if (!existingPaths.has(path)) {
+      await withRetry('save', () => recordUploadedObject(path), retry);
     }
+    
+    variants.push({
+      name: variant.name,
+      storagePath: path,
+      url,
+      width: variant.width,
+      height: variant.height,
+      bytes: variant.bytes,
+      mimeType: variant.mimeType,
+    });
   }
   
-  return studySpotMap;
+  const primary = variants.find(variant => variant.name === PRIMARY_VARIANT) || variants[variants.length - 1];
+  
+  const data = {
+    url: primary.url,
+    sourceUrl,
+    sourceRemovedAt: null,
+    placeholder: image.placeholder,
+    ...owner,
+  };
+  
+  await withRetry('save', () => prisma.photo.upsert({
+    where: { storagePath },
+    update: {
+      ...data,
+      variants: { deleteMany: {}, create: variants },
+    },
+    create: {
+      ...data,
+      storagePath,
+      migrationRunId: runId,
+      variants: { create: variants },
+    },
+  }), retry);
+  
+  return true;
 }
 
 /**
- * Step 4: Migrate Lecture Halls
+ * Step 5: Process and Upload Photos
+ * Runs the photo pipeline through a bounded worker pool (--photo-concurrency).
+ * Returns the storage paths of every photo still present in the source.
  */
-async function migrateLectureHalls(
-  buildingMap: Map<string, string>
-): Promise<Map<string, string>> {
-  console.log('\n🎓 Step 4: Migrating Lecture Halls...');
+async function processPhotos(
+  storagePrefix: string,
+  owners: { mapping: CollectionMapping; documents: { id: string }[]; idMap: Map<string, string> }[],
+  checkpoint: MigrationCheckpoint
+): Promise<Set<string>> {
+  log.info(`\n📸 Step 5: Processing and Uploading Photos (concurrency: ${options.photoConcurrency})...`);
   
-  const roomsPath = path.join(__dirname, '../data/collections/rooms.json');
-  const rooms: RoomData[] = JSON.parse(fs.readFileSync(roomsPath, 'utf-8'));
+  const jobs: PhotoJob[] = [];
   
-  const lectureHallMap = new Map<string, string>();
+  // Photos of every migrated study spot and lecture hall, from their mapping's photos field
+  for (const { mapping, documents, idMap } of owners) {
+    const { owner, photoPath } = PHOTO_OWNERS[mapping.model];
+    
+    for (const document of documents) {
+      const id = idMap.get(document.id);
+      if (!id) continue;
+      
+      const urls = photoUrls(mapping, document);
+      urls.forEach((sourceUrl, i) => {
+        jobs.push({
+          label: `${mappingNoun(mapping)} ${documentLabel(mapping, document)} (${i + 1}/${urls.length})`,
+          sourceUrl,
+          storagePath: photoPath(storagePrefix, id, i),
+          owner: owner(id),
+        });
+      });
+    }
+  }
   
-  for (const room of rooms) {
+  await runPool(jobs, options.photoConcurrency, async (job) => {
+    if (checkpoint.processedPhotos[job.storagePath] === job.sourceUrl) {
+      stats.photosUnchanged++;
+      return;
+    }
+    
     try {
-      const normalizedBuilding = normalizeBuildingName(room.building);
-      const buildingId = buildingMap.get(normalizedBuilding);
-      
-      if (!buildingId) {
-        throw new Error(`Building not found: ${normalizedBuilding}`);
+      if (await syncPhoto(job)) {
+        stats.photos++;
+        log.info(`  ✅ Processed photo for ${job.label}`, {
+          step: 'photos',
+          entityType: 'Photo',
+          sourceId: job.sourceUrl,
+          targetId: job.storagePath,
+        });
+      } else {
+        stats.photosUnchanged++;
       }
       
-      const lectureHall = await prisma.lectureHall.create({
-        data: {
-          buildingId,
-          room: room.room,
-          hasAvInputs: room.information.av_inputs === 'yes',
-          hasPc: room.information.pc === 'yes',
-          hasWhiteboard: room.information.whiteboard === 'yes',
-          hasProjector: room.information.projector === 'yes',
-        },
+      checkpoint.processedPhotos[job.storagePath] = job.sourceUrl;
+      saveCheckpoint(checkpoint);
+    } catch (error) {
+      const stage = error instanceof RetryExhaustedError ? error.stage : 'unknown';
+      stats.failedPhotos.push({
+        label: job.label,
+        sourceUrl: job.sourceUrl,
+        storagePath: job.storagePath,
+        stage,
+        error: `${error}`,
       });
       
-      lectureHallMap.set(room.id, lectureHall.id);
-      stats.lectureHalls++;
-      console.log(`✅ Created lecture hall: ${room.room}`);
-    } catch (error) {
-      const errorMsg = `Failed to create lecture hall ${room.room}: ${error}`;
-      stats.errors.push(errorMsg);
-      console.error(`❌ ${errorMsg}`);
+      recordError(
+        'photos',
+        'Photo',
+        { sourceId: job.sourceUrl, targetId: job.storagePath },
+        `Failed to process photo for ${job.label}`,
+        error
+      );
     }
-  }
+  });
   
-  return lectureHallMap;
+  log.info(`  ⏭️  Skipped ${stats.photosUnchanged} unchanged photos`);
+  return new Set(jobs.map(job => job.storagePath));
 }
 
 /**
- * Step 5: Process and Upload Photos
+ * Step 6: Handle records that disappeared from the source
+ * Only rows that carry a sourceId are considered, so rows created outside the migration are never touched.
  */
-async function processPhotos(
+async function pruneRemovedRecords(
   universityId: string,
+  storagePrefix: string,
   studySpotMap: Map<string, string>,
-  lectureHallMap: Map<string, string>
+  lectureHallMap: Map<string, string>,
+  expectedPhotoPaths: Set<string>,
+  removedSourceIds: { studyRooms: RemovedSourceIds; rooms: RemovedSourceIds }
 ): Promise<void> {
-  console.log('\n📸 Step 5: Processing and Uploading Photos...');
+  log.info(`\n🧹 Step 6: Pruning Removed Records (mode: ${options.pruneMode})...`);
+  
+  // Rows an earlier run flagged are skipped when flagging again, but still deleted by delete mode
+  const notYetFlagged = options.pruneMode === 'flag' ? { sourceRemovedAt: null } : {};
+  
+  const removedStudySpots = await prisma.studySpot.findMany({
+    where: {
+      sourceUniversityId: universityId,
+      sourceId: removedSourceIds.studyRooms,
+      ...notYetFlagged,
+    },
+    select: { id: true, name: true },
+  });
   
-  // Process Study Spot photos
-  const studyRoomsPath = path.join(__dirname, '../data/collections/study-rooms.json');
-  const studyRooms: StudyRoomData[] = JSON.parse(fs.readFileSync(studyRoomsPath, 'utf-8'));
+  const removedLectureHalls = await prisma.lectureHall.findMany({
+    where: {
+      sourceUniversityId: universityId,
+      sourceId: removedSourceIds.rooms,
+      ...notYetFlagged,
+    },
+    select: { id: true, room: true },
+  });
+  
+  const removedPhotos = await prisma.photo.findMany({
+    where: {
+      storagePath: {
+        startsWith: `${storagePrefix}/`,
+        notIn: [...expectedPhotoPaths],
+      },
+      OR: [
+        { studySpotId: { in: [...studySpotMap.values()] } },
+        { lectureHallId: { in: [...lectureHallMap.values()] } },
+      ],
+      sourceUrl: { not: null },
+      ...notYetFlagged,
+    },
+    select: { id: true, storagePath: true },
+  });
+  
+  const prune = { step: 'prune' };
+  removedStudySpots.forEach(spot => log.info(`  Study spot no longer in source: ${spot.name}`, { ...prune, entityType: 'StudySpot', targetId: spot.id }));
+  removedLectureHalls.forEach(hall => log.info(`  Lecture hall no longer in source: ${hall.room}`, { ...prune, entityType: 'LectureHall', targetId: hall.id }));
+  removedPhotos.forEach(photo => log.info(`  Photo no longer in source: ${photo.storagePath}`, { ...prune, entityType: 'Photo', targetId: photo.id }));
   
-  for (const room of studyRooms) {
-    if (!room.imageURL || room.imageURL.length === 0) continue;
+  stats.removed.studySpots = removedStudySpots.length;
+  stats.removed.lectureHalls = removedLectureHalls.length;
+  stats.removed.photos = removedPhotos.length;
+  
+  if (options.pruneMode === 'flag') {
+    const sourceRemovedAt = new Date();
+    
+    await prisma.studySpot.updateMany({
+      where: { id: { in: removedStudySpots.map(spot => spot.id) } },
+      data: { sourceRemovedAt },
+    });
+    await prisma.lectureHall.updateMany({
+      where: { id: { in: removedLectureHalls.map(hall => hall.id) } },
+      data: { sourceRemovedAt },
+    });
+    await prisma.photo.updateMany({
+      where: { id: { in: removedPhotos.map(photo => photo.id) } },
+      data: { sourceRemovedAt },
+    });
     
-    const studySpotId = studySpotMap.get(room.id);
-    if (!studySpotId) continue;
+    log.info('✅ Flagged removed records');
+  } else if (options.pruneMode === 'delete') {
+    // Photos of removed entities go too, so they are deleted first for the foreign keys
+    const orphanedPhotos = await prisma.photo.findMany({
+      where: {
+        OR: [
+          { studySpotId: { in: removedStudySpots.map(spot => spot.id) } },
+          { lectureHallId: { in: removedLectureHalls.map(hall => hall.id) } },
+          { id: { in: removedPhotos.map(photo => photo.id) } },
+        ],
+      },
+      select: { id: true, storagePath: true },
+    });
     
-    for (let i = 0; i < room.imageURL.length; i++) {
-      const imageUrl = room.imageURL[i];
+    try {
+      await getStorage().delete(orphanedPhotos.flatMap(photo => variantPaths(photo.storagePath)));
+    } catch (error) {
+      recordError('prune', 'Photo', {}, 'Failed to remove pruned photos from storage', error);
+    }
+    
+    await prisma.photo.deleteMany({
+      where: { id: { in: orphanedPhotos.map(photo => photo.id) } },
+    });
+    await prisma.studySpot.deleteMany({
+      where: { id: { in: removedStudySpots.map(spot => spot.id) } },
+    });
+    await prisma.lectureHall.deleteMany({
+      where: { id: { in: removedLectureHalls.map(hall => hall.id) } },
+    });
+    
+    stats.removed.photos = orphanedPhotos.length;
+    log.info('✅ Deleted removed records');
+  }
+}
+
+/**
+ * Refuse a data directory whose files don't match its export manifest (unless --skip-verify).
+ * Sources reading Firestore directly have no export to verify.
+ */
+async function verifyDataDir(source: MigrationSource): Promise<void> {
+  if (!source.dataDir) return;
+  if (options.skipVerify) {
+    log.warn('\n⚠️  Skipping export verification (--skip-verify)');
+    return;
+  }
+  
+  log.info('\n🔏 Verifying Export...');
+  const verification = await verifySourceData(source.dataDir, options.applyChangeset, mappedCollections(mappings));
+  if (isJsonLogging()) {
+    log.info('Export verification', { problems: verification.problems, unlisted: verification.unlisted });
+  } else {
+    printManifestVerification(verification);
+  }
+  
+  if (verification.problems.length > 0) {
+    throw new Error(`Export in ${source.dataDir} failed verification (run npm run verify, or --skip-verify to bypass)`);
+  }
+}
+
+/**
+ * Load both collections (or their changesets with --changeset) and validate them against their runtime schemas.
+ * Strict mode (default) aborts on any invalid document; --lenient skips them.
+ * Other mapped collections are loaded as they are when the collections step runs; their mapping checks them.
+ */
+async function loadValidatedSourceData(config: UniversityConfig, source: MigrationSource, steps: MigrationStep[]) {
+  const sourceData = await source.load();
+  const rawStudyRooms = sourceData.studyRooms;
+  const rawRooms = sourceData.rooms;
+  
+  const { reports, studyRooms, rooms } = validateSourceData(rawStudyRooms, rawRooms);
+  if (!isJsonLogging()) {
+    printValidationReports(reports);
+  }
+  
+  const reportPath = saveReport(`validation-${config.slug}`, reports);
+  log.info(`📄 Validation report written to ${reportPath}`, {
+    collections: reports.map(({ collection, total, invalid }) => ({ collection, total, invalid })),
+    reportPath,
+  });
+  
+  const invalid = reports.reduce((sum, report) => sum + report.invalid, 0);
+  if (invalid > 0) {
+    if (!options.lenient) {
+      throw new Error(`${invalid} source documents failed validation (re-run with --lenient to skip them)`);
+    }
+    log.warn(`⚠️  Skipping ${invalid} invalid documents (--lenient)`);
+  }
+  
+  // A changeset says what was deleted; otherwise anything absent from the export was removed.
+  // IDs of every source document, valid or not, are kept so skipped documents are never pruned.
+  const idsOf = (docs: { id?: unknown }[]) =>
+    docs.map(doc => doc.id).filter((id): id is string => typeof id === 'string');
+  
+  const removedSourceIds = sourceData.deleted
+    ? { studyRooms: { in: sourceData.deleted.studyRooms }, rooms: { in: sourceData.deleted.rooms } }
+    : { studyRooms: { notIn: idsOf(rawStudyRooms) }, rooms: { notIn: idsOf(rawRooms) } };
+  
+  const collections = new Map<string, unknown[]>();
+  if (steps.includes('collections')) {
+    for (const mapping of mappings.additional) {
+      collections.set(mapping.collection, await source.loadCollection(mapping.collection));
+    }
+  }
+  
+  return { studyRooms, rooms, collections, removedSourceIds };
+}
+
+/**
+ * Configs of the selected universities. Firestore holds a single university's documents, so reading it
+ * directly needs exactly one.
+ */
+function selectedUniversities(): UniversityConfig[] {
+  const configs = loadUniversityConfigs(options.universities);
+  if (options.source !== 'export') {
+    if (configs.length !== 1) {
+      throw new Error(`--source=${options.source} reads one Firebase project; pick its university with --university`);
+    }
+    if (options.applyChangeset) {
+      throw new Error('--changeset only applies to --source=export');
+    }
+  }
+  return configs;
+}
+
+/**
+ * Where a university's source documents are read from
+ */
+function openSource(config: UniversityConfig): MigrationSource {
+  switch (options.source) {
+    case 'export':
+      return createExportSource(resolveDataDir(config), options.applyChangeset);
+    case 'firestore':
+      return createFirestoreSource();
+    case 'emulator':
+      return createFirestoreSource(options.emulatorHost ?? process.env.FIRESTORE_EMULATOR_HOST ?? DEFAULT_EMULATOR_HOST);
+  }
+}
+
+/**
+ * Building resolver for a university, knowing its alias targets and the buildings it already has
+ */
+async function createBuildingResolver(
+  db: Prisma.TransactionClient,
+  config: UniversityConfig,
+  universityId: string
+): Promise<BuildingResolver> {
+  const existing = await db.building.findMany({
+    where: { universityId },
+    select: { name: true },
+  });
+  
+  return new BuildingResolver(
+    config.buildingAliases,
+    existing.map(building => building.name),
+    config.buildingMatchThreshold ?? DEFAULT_MATCH_THRESHOLD,
+    options.createUnknownBuildings
+  );
+}
+
+/**
+ * Load the checkpoint of an interrupted run when --resume is given, otherwise start a new one
+ */
+function openCheckpoint(university: string): MigrationCheckpoint {
+  if (options.resume) {
+    const checkpoint = loadCheckpoint(university);
+    if (checkpoint) {
+      log.info(`\n⏯️  Resuming from checkpoint saved at ${checkpoint.updatedAt}`);
+      log.info(`  Completed steps: ${checkpoint.completedSteps.join(', ') || 'none'}`);
+      log.info(`  Photos already processed: ${Object.keys(checkpoint.processedPhotos).length}`);
+      return checkpoint;
+    }
+    log.warn('\n⚠️  --resume given but no checkpoint found, starting from the beginning');
+  }
+  
+  const checkpoint = createCheckpoint(university);
+  saveCheckpoint(checkpoint);
+  return checkpoint;
+}
+
+/**
+ * Run a migration step unless the checkpoint says it already completed,
+ * in which case its result is restored from the checkpoint instead.
+ * By default the step is marked complete straight away; complete overrides that.
+ */
+async function runStep<T>(
+  checkpoint: MigrationCheckpoint,
+  step: MigrationStep,
+  run: () => Promise<T>,
+  save: (result: T) => void,
+  restore: () => T,
+  complete: () => void = () => completeStep(checkpoint, step)
+): Promise<T> {
+  if (checkpoint.completedSteps.includes(step)) {
+    log.info(`\n⏭️  Skipping ${step} (completed in checkpoint)`);
+    return restore();
+  }
+  
+  const result = await run();
+  save(result);
+  complete();
+  return result;
+}
+
+/**
+ * Steps 1-4 (university, buildings, study spots, lecture halls, other collections) in one transaction: either every
+ * row they write is committed or none is. They are only marked complete in the checkpoint once
+ * the transaction has committed, so a crash never leaves a checkpoint pointing at rolled-back rows.
+ */
+async function migrateStructure(
+  config: UniversityConfig,
+  checkpoint: MigrationCheckpoint,
+  steps: MigrationStep[],
+  studyRooms: StudyRoomData[],
+  rooms: RoomData[],
+  collections: Map<string, unknown[]>
+) {
+  const committed: MigrationStep[] = [];
+  const complete = (step: MigrationStep) => () => { committed.push(step); };
+  
+  try {
+    const structure = await prisma.$transaction(async tx => {
+      // Step 1: Upsert University
+      const universityId = await runStep(
+        checkpoint,
+        'university',
+        () => createUniversity(tx, config),
+        id => { checkpoint.universityId = id; },
+        () => checkpoint.universityId!,
+        complete('university')
+      );
       
-      try {
-        console.log(`  Downloading: ${imageUrl.substring(0, 80)}...`);
-        const imageBuffer = await downloadImage(imageUrl);
-        
-        console.log(`  Optimizing image ${i + 1}/${room.imageURL.length}...`);
-        const optimizedBuffer = await optimizeImage(imageBuffer);
-        
-        const storagePath = `universities/${universityId}/photos/study-spots/${studySpotId}/${i}.webp`;
-        console.log(`  Uploading to: ${storagePath}`);
-        const publicUrl = await uploadToSupabase(optimizedBuffer, storagePath);
-        
-        await prisma.photo.create({
-          data: {
-            storagePath,
-            url: publicUrl,
-            studySpotId,
-          },
-        });
-        
-        stats.photos++;
-        console.log(`  ✅ Processed photo ${i + 1} for ${room.name}`);
-      } catch (error) {
-        const errorMsg = `Failed to process photo for study spot ${room.name}: ${error}`;
-        stats.errors.push(errorMsg);
-        console.error(`  ❌ ${errorMsg}`);
+      // Resolve building names against the config aliases and the university's existing buildings
+      const resolver = await createBuildingResolver(tx, config, universityId);
+      const buildingNames = resolver.resolveAll([
+        ...studyRooms.flatMap(room => referencedBuildings(mappings.studyRooms, room)),
+        ...rooms.flatMap(room => referencedBuildings(mappings.rooms, room)),
+        ...mappings.additional.flatMap(mapping =>
+          (collections.get(mapping.collection) || []).flatMap(document => referencedBuildings(mapping, document))
+        ),
+      ]);
+      
+      // Step 2: Upsert Buildings
+      const buildingMap = !steps.includes('buildings') ? new Map<string, string>() : await runStep(
+        checkpoint,
+        'buildings',
+        () => createBuildings(tx, universityId, buildingNames),
+        map => { checkpoint.buildingMap = Object.fromEntries(map); },
+        () => new Map(Object.entries(checkpoint.buildingMap)),
+        complete('buildings')
+      );
+      
+      // Step 3: Migrate Study Spots
+      const studySpotMap = !steps.includes('studySpots') ? new Map<string, string>() : await runStep(
+        checkpoint,
+        'studySpots',
+        () => migrateStudySpots(tx, universityId, buildingMap, studyRooms, resolver),
+        map => { checkpoint.studySpotMap = Object.fromEntries(map); },
+        () => new Map(Object.entries(checkpoint.studySpotMap)),
+        complete('studySpots')
+      );
+      
+      // Step 4: Migrate Lecture Halls
+      const lectureHallMap = !steps.includes('lectureHalls') ? new Map<string, string>() : await runStep(
+        checkpoint,
+        'lectureHalls',
+        () => migrateLectureHalls(tx, universityId, buildingMap, rooms, resolver),
+        map => { checkpoint.lectureHallMap = Object.fromEntries(map); },
+        () => new Map(Object.entries(checkpoint.lectureHallMap)),
+        complete('lectureHalls')
+      );
+      
+      // Step 4b: Migrate the other mapped collections
+      if (steps.includes('collections')) {
+        await runStep(
+          checkpoint,
+          'collections',
+          () => migrateCollections(tx, universityId, buildingMap, collections, resolver),
+          idMaps => { checkpoint.collectionMaps = idMaps; },
+          () => checkpoint.collectionMaps,
+          complete('collections')
+        );
       }
+      
+      return { universityId, resolver, buildingMap, studySpotMap, lectureHallMap };
+    }, { timeout: STRUCTURE_TRANSACTION_TIMEOUT_MS });
+    
+    committed.forEach(step => completeStep(checkpoint, step));
+    if (committed.length > 0) {
+      log.info(`✅ Committed ${committed.join(', ')}`);
     }
+    return structure;
+  } catch (error) {
+    // Nothing was written, so nothing counts as upserted
+    Object.assign(stats, { university: 0, buildings: 0, studySpots: 0, lectureHalls: 0, collections: {} });
+    log.error(`❌ Rolled back ${committed.join(', ') || 'the transaction'}: ${error}`, { error });
+    throw error;
   }
+}
+
+/**
+ * Migrate one university described by its config and return its run report.
+ * A failed run throws, after its report has been saved.
+ */
+export async function migrateUniversity(
+  config: UniversityConfig,
+  migrateOptions: Partial<MigrateOptions> = {}
+): Promise<RunReport> {
+  options = { ...DEFAULT_MIGRATE_OPTIONS, ...migrateOptions };
+  log = rootLog.child({ university: config.slug });
+  mappings = loadCollectionMappings();
+  normalizer = new VocabularyNormalizer(loadVocabularies());
+  const source = openSource(config);
+  log.info(`\n🎓 Migrating ${config.name} (${config.slug}) from ${source.description}`, { source: source.kind });
+  stats = createStats();
+  const steps = resolveSteps(options.steps);
+  if (steps.length < MIGRATION_STEPS.length) {
+    log.info(`Steps: ${steps.join(', ')}`);
+  }
+  const startTime = Date.now();
   
-  // Process Lecture Hall photos
-  const roomsPath = path.join(__dirname, '../data/collections/rooms.json');
-  const rooms: RoomData[] = JSON.parse(fs.readFileSync(roomsPath, 'utf-8'));
+  // Resume from the last checkpoint, or start a fresh one
+  const checkpoint = openCheckpoint(config.slug);
   
-  for (const room of rooms) {
-    if (!room.photos || room.photos.length === 0) continue;
+  // Record the run in the ledger (a resumed run continues the interrupted one), so a source that fails
+  // verification or validation is recorded and reported like any other failure
+  runId = await startRun(config, source, checkpoint);
+  log = log.child({ runId });
+  
+  try {
+    // Verify and validate source data before any writes
+    await verifyDataDir(source);
+    const { studyRooms, rooms, collections, removedSourceIds } = await loadValidatedSourceData(config, source, steps);
     
-    const lectureHallId = lectureHallMap.get(room.id);
-    if (!lectureHallId) continue;
+    // Steps 1-4, committed together
+    const { universityId, resolver, studySpotMap, lectureHallMap } =
+      await migrateStructure(config, checkpoint, steps, studyRooms, rooms, collections);
+    const storagePrefix = resolveStoragePrefix(config, universityId);
     
-    for (let i = 0; i < room.photos.length; i++) {
-      const imageUrl = room.photos[i];
+    // Step 5: Process Photos (photos already in the checkpoint are skipped)
+    if (steps.includes('photos')) {
+      const expectedPhotoPaths = await processPhotos(storagePrefix, [
+        { mapping: mappings.studyRooms, documents: studyRooms, idMap: studySpotMap },
+        { mapping: mappings.rooms, documents: rooms, idMap: lectureHallMap },
+      ], checkpoint);
+      completeStep(checkpoint, 'photos');
       
-      try {
-        console.log(`  Downloading: ${imageUrl.substring(0, 80)}...`);
-        const imageBuffer = await downloadImage(imageUrl);
-        
-        console.log(`  Optimizing image ${i + 1}/${room.photos.length}...`);
-        const optimizedBuffer = await optimizeImage(imageBuffer);
-        
-        const storagePath = `universities/${universityId}/photos/lecture-halls/${lectureHallId}/${i}.webp`;
-        console.log(`  Uploading to: ${storagePath}`);
-        const publicUrl = await uploadToSupabase(optimizedBuffer, storagePath);
-        
-        await prisma.photo.create({
-          data: {
-            storagePath,
-            url: publicUrl,
-            lectureHallId,
-          },
-        });
-        
-        stats.photos++;
-        console.log(`  ✅ Processed photo ${i + 1} for ${room.room}`);
-      } catch (error) {
-        const errorMsg = `Failed to process photo for lecture hall ${room.room}: ${error}`;
-        stats.errors.push(errorMsg);
-        console.error(`  ❌ ${errorMsg}`);
+      // Step 6: Handle records removed from the source
+      if (steps.includes('prune')) {
+        await pruneRemovedRecords(universityId, storagePrefix, studySpotMap, lectureHallMap, expectedPhotoPaths, removedSourceIds);
+        completeStep(checkpoint, 'prune');
+      }
+    }
+    
+    // Once every step has run there is nothing left to resume; after a partial run,
+    // --resume runs the remaining steps
+    if (steps.length === MIGRATION_STEPS.length) {
+      clearCheckpoint(config.slug);
+      // The next incremental export starts a new changeset instead of adding to this one
+      if (options.applyChangeset && source.dataDir) {
+        markChangesetsApplied(source.dataDir, mappedCollections(mappings));
       }
+    } else {
+      log.info('\n⏸️  Not every step was selected; the checkpoint is kept so --resume can run the rest');
+    }
+    await finishRun('succeeded');
+    
+    const report = buildRunReport(config, 'succeeded', steps, startTime);
+    printRunSummary(report);
+    
+    if (!isJsonLogging()) {
+      printBuildingReview(resolver);
     }
+    const resolutionReportPath = saveReport(`building-resolution-${config.slug}`, resolver.resolutionsSeen());
+    log.info(`📄 Building resolution report written to ${resolutionReportPath}`, {
+      needsReview: resolver.needsReview().length,
+    });
+    
+    // Feature, noise level and space type values that were rewritten or couldn't be mapped
+    const normalization = normalizer.report();
+    if (!isJsonLogging()) {
+      printNormalizationReport(normalization);
+    }
+    const normalizationReportPath = saveReport(`normalization-${config.slug}`, normalization);
+    log.info(`📄 Normalization report written to ${normalizationReportPath}`, {
+      unmapped: countUnmapped(normalization),
+    });
+    
+    logRunReportPaths(saveRunReport(report));
+    return report;
+  } catch (error) {
+    // A ledger that can't be written mustn't hide why the run failed
+    try {
+      await finishRun('failed', error);
+    } catch (ledgerError) {
+      log.error(`❌ Couldn't record the failed run in the ledger: ${ledgerError}`, { error: ledgerError });
+    }
+    logRunReportPaths(saveRunReport(buildRunReport(config, 'failed', steps, startTime, error)));
+    throw error;
+  }
+}
+
+/**
+ * Run report of the university just migrated, from its stats
+ */
+function buildRunReport(
+  config: UniversityConfig,
+  status: RunReport['status'],
+  steps: MigrationStep[],
+  startTime: number,
+  fatalError?: unknown
+): RunReport {
+  const { errors, failedPhotos, ...counts } = stats;
+  const finishedAt = Date.now();
+  
+  return {
+    runId,
+    university: { slug: config.slug, name: config.name },
+    status,
+    startedAt: new Date(startTime).toISOString(),
+    finishedAt: new Date(finishedAt).toISOString(),
+    durationSeconds: Math.round((finishedAt - startTime) / 10) / 100,
+    steps,
+    options: { ...options },
+    counts,
+    errors,
+    failedPhotos,
+    fatalError: fatalError === undefined ? null : serializeError(fatalError, false),
+  };
+}
+
+/**
+ * Print the summary of a finished run; a single structured entry with JSON logging
+ */
+function printRunSummary(report: RunReport): void {
+  const { counts } = report;
+  
+  if (isJsonLogging()) {
+    log.info('Migration summary', {
+      counts,
+      errors: report.errors.length,
+      failedPhotos: report.failedPhotos.length,
+      durationSeconds: report.durationSeconds,
+    });
+    return;
   }
+  
+  log.info('\n' + '='.repeat(60));
+  log.info(`📊 MIGRATION SUMMARY: ${report.university.name}`);
+  log.info('='.repeat(60));
+  log.info(`📒 Run: ${runId} (undo with npm run rollback -- --run=${runId})`);
+  log.info(`✅ University: ${counts.university}`);
+  log.info(`✅ Buildings: ${counts.buildings}`);
+  log.info(`✅ Study Spots: ${counts.studySpots}`);
+  log.info(`✅ Lecture Halls: ${counts.lectureHalls}`);
+  Object.entries(counts.collections).forEach(([collection, count]) => log.info(`✅ ${collection}: ${count}`));
+  log.info(`✅ Photos: ${counts.photos} (${counts.photosUnchanged} unchanged)`);
+  log.info(`🧹 Removed from source (${options.pruneMode}): ${counts.removed.studySpots} study spots, ${counts.removed.lectureHalls} lecture halls, ${counts.removed.photos} photos`);
+  log.info(`❌ Errors: ${report.errors.length}`);
+  log.info(`⏱️  Duration: ${report.durationSeconds}s`);
+  log.info('='.repeat(60));
+  
+  if (report.failedPhotos.length > 0) {
+    log.info(`\n📸 PHOTOS THAT EXHAUSTED THEIR RETRIES (${report.failedPhotos.length}):`);
+    report.failedPhotos.forEach((photo, index) => {
+      log.info(`${index + 1}. [${photo.stage}] ${photo.label}: ${photo.sourceUrl}`);
+    });
+  }
+  
+  if (report.errors.length > 0) {
+    log.warn('\n⚠️  ERRORS:');
+    report.errors.forEach((error, index) => {
+      log.info(`${index + 1}. [${error.step}] ${error.message}: ${error.error.message}`);
+    });
+  }
+}
+
+function logRunReportPaths(paths: { jsonPath: string; markdownPath: string }): void {
+  log.info(`📄 Run report written to ${paths.jsonPath} and ${paths.markdownPath}`, paths);
 }
 
 /**
  * Main migration function
+ * Runs every selected university in turn; a failing university doesn't stop the others.
  */
 async function migrate() {
-  console.log('🚀 Starting Firestore to Supabase Migration...\n');
-  const startTime = Date.now();
+  rootLog.info('🚀 Starting Firestore to Supabase Migration...\n');
   
   try {
-    // Step 0: Setup - Clear data and ensure bucket exists
-    await clearExistingData();
-    await ensureStorageBucket();
-    
-    // Step 1: Create University
-    const universityId = await createUniversity();
-    
-    // Step 2: Create Buildings
-    const buildingMap = await createBuildings(universityId);
-    
-    // Step 3: Migrate Study Spots
-    const studySpotMap = await migrateStudySpots(buildingMap);
+    const configs = selectedUniversities();
+    rootLog.info(`Universities: ${configs.map(config => config.slug).join(', ')}`);
     
-    // Step 4: Migrate Lecture Halls
-    const lectureHallMap = await migrateLectureHalls(buildingMap);
-    
-    // Step 5: Process Photos
-    await processPhotos(universityId, studySpotMap, lectureHallMap);
+    // Setup - Ensure bucket exists
+    await ensureStorageBucket();
     
-    // Generate summary report
-    const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+    const failed: string[] = [];
     
-    console.log('\n' + '='.repeat(60));
-    console.log('📊 MIGRATION SUMMARY');
-    console.log('='.repeat(60));
-    console.log(`✅ University: ${stats.university}`);
-    console.log(`✅ Buildings: ${stats.buildings}`);
-    console.log(`✅ Study Spots: ${stats.studySpots}`);
-    console.log(`✅ Lecture Halls: ${stats.lectureHalls}`);
-    console.log(`✅ Photos: ${stats.photos}`);
-    console.log(`❌ Errors: ${stats.errors.length}`);
-    console.log(`⏱️  Duration: ${duration}s`);
-    console.log('='.repeat(60));
+    for (const config of configs) {
+      try {
+        await migrateUniversity(config, options);
+      } catch (error) {
+        failed.push(config.slug);
+        rootLog.error(`\n❌ Migration of ${config.slug} failed: ${error}`, { university: config.slug, error });
+      }
+    }
     
-    if (stats.errors.length > 0) {
-      console.log('\n⚠️  ERRORS:');
-      stats.errors.forEach((error, index) => {
-        console.log(`${index + 1}. ${error}`);
-      });
+    if (failed.length > 0) {
+      throw new Error(`Migration failed for: ${failed.join(', ')}`);
     }
     
-    console.log('\n✅ Migration completed successfully!');
+    rootLog.info('\n✅ Migration completed successfully!');
     
   } catch (error) {
-    console.error('\n❌ Migration failed:', error);
+    rootLog.error(`\n❌ Migration failed: ${error}`, { error });
     throw error;
   } finally {
-    await prisma.$disconnect();
+    await disconnectDatabase();
   }
 }
 
-// Run migration
-migrate()
-  .catch((error) => {
-    console.error('Fatal error:', error);
-    process.exit(1);
-  });
+/**
+ * Dry run: report what migrate() would do without writing anything
+ */
+async function planOnly() {
+  rootLog.info('🔍 Planning Firestore to Supabase Migration (dry run)...');
+  mappings = loadCollectionMappings();
+  
+  for (const config of selectedUniversities()) {
+    log = rootLog.child({ university: config.slug });
+    log.info(`\n🎓 ${config.name} (${config.slug})`);
+    
+    const source = openSource(config);
+    await verifyDataDir(source);
+    const plan = await buildMigrationPlan(config, source, options.createUnknownBuildings);
+    if (!isJsonLogging()) {
+      printMigrationPlan(plan);
+    }
+    
+    const reportPath = saveMigrationPlan(plan);
+    log.info(`\n📄 Full plan written to ${reportPath}`, { counts: plan.counts, failures: plan.failures.length, reportPath });
+  }
+}
 
+/**
+ * Close the database connections; a migration does this when it finishes, tests after their last run
+ */
+export async function disconnectDatabase(): Promise<void> {
+  await prisma.$disconnect();
+  await pool.end();
+}
+
+/**
+ * Run the migration (or, with dryRun, only plan it) with the given options
+ */
+export async function runMigration(migrateOptions: Partial<MigrateOptions> = {}): Promise<void> {
+  options = { ...DEFAULT_MIGRATE_OPTIONS, ...migrateOptions };
+  await (options.dryRun ? planOnly() : migrate());
+}
@@ -0,0 +1,88 @@
+// Chunked writes inside a transaction. Postgres aborts the whole transaction on any failed
+// statement, so every chunk runs in a savepoint: a failing chunk is rolled back to it and
+// retried one record at a time, and only the records that fail on their own are given up on.
+
+import { createLogger, Logger } from './logger';
+
+// Records written per statement (override with --batch-size)
+export const DEFAULT_BATCH_SIZE = 200;
+
+// Anything that can run raw SQL on the transaction's connection (a Prisma transaction client)
+export interface SavepointClient {
+  $executeRawUnsafe(query: string): Promise<number>;
+}
+
+/**
+ * Split records into chunks of at most size
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Run writes in a savepoint; if they fail, everything they did is undone and the transaction stays usable
+ */
+export async function withSavepoint<T>(db: SavepointClient, name: string, write: () => Promise<T>): Promise<T> {
+  await db.$executeRawUnsafe(`SAVEPOINT ${name}`);
+  try {
+    const result = await write();
+    await db.$executeRawUnsafe(`RELEASE SAVEPOINT ${name}`);
+    return result;
+  } catch (error) {
+    await db.$executeRawUnsafe(`ROLLBACK TO SAVEPOINT ${name}`);
+    throw error;
+  }
+}
+
+/**
+ * Write records chunk by chunk with writeBatch. A chunk that fails is retried record by record
+ * with writeOne, and records that still fail are passed to onError instead of aborting the transaction.
+ * Why a chunk failed is logged at debug level.
+ */
+export async function writeInBatches<T>(
+  db: SavepointClient,
+  items: T[],
+  batchSize: number,
+  writeBatch: (batch: T[]) => Promise<void>,
+  writeOne: (item: T) => Promise<void>,
+  onError: (item: T, error: unknown) => void,
+  log: Logger = createLogger()
+): Promise<void> {
+  for (const batch of chunk(items, batchSize)) {
+    try {
+      await withSavepoint(db, 'migration_batch', () => writeBatch(batch));
+      continue;
+    } catch (error) {
+      // Find the records responsible below
+      log.debug(`  Batch of ${batch.length} failed, retrying record by record: ${error}`, { batchSize: batch.length, error });
+    }
+
+    for (const item of batch) {
+      try {
+        await withSavepoint(db, 'migration_record', () => writeOne(item));
+      } catch (error) {
+        onError(item, error);
+      }
+    }
+  }
+}
+
+/**
+ * Whether writing data to a row would change it; arrays are compared element by element
+ */
+export function differsFrom(row: Record<string, unknown>, data: Record<string, unknown>): boolean {
+  return Object.entries(data).some(([field, value]) => {
+    const current = row[field];
+    if (Array.isArray(value) && Array.isArray(current)) {
+      return value.length !== current.length || value.some((item, index) => item !== current[index]);
+    }
+    if (value instanceof Date && current instanceof Date) {
+      return value.getTime() !== current.getTime();
+    }
+    return value !== current;
+  });
+}
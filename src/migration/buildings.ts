@@ -0,0 +1,230 @@
+// British spellings rewritten before comparing names
+const SPELLING_VARIANTS: Record<string, string> = {
+  centre: 'center',
+  centres: 'centers',
+  theatre: 'theater',
+  theatres: 'theaters',
+  colour: 'color',
+  programme: 'program',
+};
+
+// Confidence a fuzzy match needs before it is used instead of refusing the name
+export const DEFAULT_MATCH_THRESHOLD = 0.8;
+
+export type ResolutionMethod = 'alias' | 'exact' | 'normalized' | 'fuzzy' | 'new' | 'unresolved';
+
+export interface BuildingResolution {
+  raw: string;
+  // Canonical building name, or null when the name couldn't be resolved
+  building: string | null;
+  method: ResolutionMethod;
+  confidence: number;
+  // Closest known building, reported for unresolved names
+  suggestion?: string;
+}
+
+/**
+ * Comparison key for a building name: case, whitespace, punctuation and
+ * British/American spelling differences are removed ("Fred Nichols Campus Centre " -> "fred nichols campus center")
+ */
+export function canonicalizeBuildingName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => SPELLING_VARIANTS[word] || word)
+    .join(' ');
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/\s+/g, '');
+  const pairs: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    pairs.push(compact.slice(i, i + 2));
+  }
+  return pairs;
+}
+
+/**
+ * Similarity of two canonical names in [0, 1].
+ * Takes the best of a bigram (Sørensen–Dice) score, word containment ("lazaridis" in
+ * "lazaridis hall") and an acronym match ("lh" for "lazaridis hall").
+ */
+export function buildingNameSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+
+  const aPairs = bigrams(a);
+  const bPairs = bigrams(b);
+  let dice = 0;
+  if (aPairs.length > 0 && bPairs.length > 0) {
+    const remaining = [...bPairs];
+    let shared = 0;
+    for (const pair of aPairs) {
+      const index = remaining.indexOf(pair);
+      if (index !== -1) {
+        shared++;
+        remaining.splice(index, 1);
+      }
+    }
+    dice = (2 * shared) / (aPairs.length + bPairs.length);
+  }
+
+  const aWords = a.split(' ');
+  const bWords = b.split(' ');
+  const [shorter, longer] = aWords.length <= bWords.length ? [aWords, bWords] : [bWords, aWords];
+  const contained = shorter.every(word => longer.includes(word)) ? 0.9 : 0;
+
+  const acronym = (words: string[]) => words.map(word => word[0]).join('');
+  const acronymMatch =
+    (aWords.length === 1 && a.length > 1 && a === acronym(bWords)) ||
+    (bWords.length === 1 && b.length > 1 && b === acronym(aWords))
+      ? 0.85
+      : 0;
+
+  return Math.max(dice, contained, acronymMatch);
+}
+
+/**
+ * Resolves raw Firestore building names to canonical buildings.
+ *
+ * Known buildings are the targets of the university's alias map plus any buildings that
+ * already exist for it. A name that doesn't match one of them exactly is fuzzily matched;
+ * below the confidence threshold it is left unresolved (no building is auto-created)
+ * unless allowNew is set. Every fuzzy, new and unresolved name is kept for the run report.
+ */
+export class BuildingResolver {
+  private knownBuildings = new Map<string, string>();
+  private aliasKeys = new Map<string, string>();
+  private resolutions = new Map<string, BuildingResolution & { occurrences: number }>();
+
+  constructor(
+    private aliases: Record<string, string>,
+    knownBuildings: string[] = [],
+    private threshold: number = DEFAULT_MATCH_THRESHOLD,
+    private allowNew: boolean = false
+  ) {
+    for (const building of [...Object.values(aliases), ...knownBuildings]) {
+      this.knownBuildings.set(canonicalizeBuildingName(building), building);
+    }
+    for (const [alias, building] of Object.entries(aliases)) {
+      this.aliasKeys.set(canonicalizeBuildingName(alias), building);
+    }
+  }
+
+  /**
+   * Resolve a raw building name (cached, so repeated lookups are cheap and consistent)
+   */
+  resolve(raw: string): BuildingResolution {
+    let resolution = this.resolutions.get(raw);
+    if (!resolution) {
+      resolution = { ...this.match(raw), occurrences: 0 };
+      this.resolutions.set(raw, resolution);
+    }
+    return resolution;
+  }
+
+  /**
+   * Resolve every raw name of the source data once, counting occurrences for the report.
+   * Returns the distinct canonical buildings they resolve to.
+   */
+  resolveAll(rawNames: string[]): Set<string> {
+    const buildings = new Set<string>();
+    for (const raw of rawNames) {
+      this.resolve(raw);
+      const resolution = this.resolutions.get(raw)!;
+      resolution.occurrences++;
+      if (resolution.building) buildings.add(resolution.building);
+    }
+    return buildings;
+  }
+
+  private match(raw: string): BuildingResolution {
+    if (this.aliases[raw]) {
+      return { raw, building: this.aliases[raw], method: 'alias', confidence: 1 };
+    }
+
+    const key = canonicalizeBuildingName(raw);
+    if (!key) {
+      return { raw, building: null, method: 'unresolved', confidence: 0 };
+    }
+
+    const exact = this.knownBuildings.get(key);
+    if (exact) {
+      return { raw, building: exact, method: exact === raw ? 'exact' : 'normalized', confidence: 1 };
+    }
+
+    const alias = this.aliasKeys.get(key);
+    if (alias) {
+      return { raw, building: alias, method: 'normalized', confidence: 1 };
+    }
+
+    // Best fuzzy candidate; a tie between two different buildings is ambiguous
+    let best: { building: string; score: number } | null = null;
+    let ambiguous = false;
+    for (const [candidateKey, building] of [...this.knownBuildings, ...this.aliasKeys]) {
+      const score = buildingNameSimilarity(key, candidateKey);
+      if (!best || score > best.score) {
+        best = { building, score };
+        ambiguous = false;
+      } else if (score === best.score && building !== best.building) {
+        ambiguous = true;
+      }
+    }
+
+    const confidence = best ? Math.round(best.score * 100) / 100 : 0;
+    if (best && !ambiguous && best.score >= this.threshold) {
+      return { raw, building: best.building, method: 'fuzzy', confidence };
+    }
+
+    if (this.allowNew) {
+      const building = raw.trim().replace(/\s+/g, ' ');
+      this.knownBuildings.set(key, building);
+      return { raw, building, method: 'new', confidence, suggestion: best?.building };
+    }
+
+    return { raw, building: null, method: 'unresolved', confidence, suggestion: best?.building };
+  }
+
+  /**
+   * Every distinct raw name seen so far, with how it was resolved
+   */
+  resolutionsSeen(): (BuildingResolution & { occurrences: number })[] {
+    return [...this.resolutions.values()];
+  }
+
+  /**
+   * Names a human should confirm: fuzzy matches, newly created and unresolved buildings
+   */
+  needsReview(): (BuildingResolution & { occurrences: number })[] {
+    return this.resolutionsSeen().filter(r => r.method === 'fuzzy' || r.method === 'new' || r.method === 'unresolved');
+  }
+}
+
+/**
+ * Error message for a record whose building couldn't be resolved
+ */
+export function unresolvedBuildingMessage(resolution: BuildingResolution): string {
+  const suggestion = resolution.suggestion
+    ? ` (closest: "${resolution.suggestion}", confidence ${resolution.confidence})`
+    : '';
+  return `Building not resolved: "${resolution.raw}"${suggestion}`;
+}
+
+/**
+ * Print the names that need a human to confirm them
+ */
+export function printBuildingReview(resolver: BuildingResolver): void {
+  const review = resolver.needsReview();
+  if (review.length === 0) return;
+
+  console.log('\n🏢 BUILDING NAMES TO CONFIRM (add them to buildingAliases):');
+  review.forEach((resolution, index) => {
+    const target =
+      resolution.method === 'unresolved'
+        ? `unresolved${resolution.suggestion ? `, closest "${resolution.suggestion}" (${resolution.confidence})` : ''}`
+        : `${resolution.method} → "${resolution.building}" (${resolution.confidence})`;
+    console.log(`${index + 1}. "${resolution.raw}" ${target} - ${resolution.occurrences}x`);
+  });
+}
@@ -0,0 +1,109 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CHECKPOINTS_DIR } from './config';
+
+export type MigrationStep = 'university' | 'buildings' | 'studySpots' | 'lectureHalls' | 'collections' | 'photos' | 'prune';
+
+// Steps in the order they run
+export const MIGRATION_STEPS: MigrationStep[] = [
+  'university',
+  'buildings',
+  'studySpots',
+  'lectureHalls',
+  'collections',
+  'photos',
+  'prune',
+];
+
+export interface MigrationCheckpoint {
+  // Slug of the university this checkpoint belongs to
+  university: string;
+  startedAt: string;
+  updatedAt: string;
+  completedSteps: MigrationStep[];
+  // MigrationRun the interrupted run was recorded as; a resumed run continues it
+  runId: string | null;
+  universityId: string | null;
+  // Normalized building name -> Building.id
+  buildingMap: Record<string, string>;
+  // Firestore document ID -> StudySpot.id / LectureHall.id
+  studySpotMap: Record<string, string>;
+  lectureHallMap: Record<string, string>;
+  // Collection -> Firestore document ID -> row ID, for the collections with a mapping config of their own
+  collectionMaps: Record<string, Record<string, string>>;
+  // Storage path -> source image URL for every photo already processed
+  processedPhotos: Record<string, string>;
+}
+
+/**
+ * Checkpoint file of a university
+ */
+export function checkpointPath(university: string): string {
+  return path.join(CHECKPOINTS_DIR, `migration-checkpoint-${university}.json`);
+}
+
+/**
+ * Start a new, empty checkpoint
+ */
+export function createCheckpoint(university: string): MigrationCheckpoint {
+  const now = new Date().toISOString();
+  return {
+    university,
+    startedAt: now,
+    updatedAt: now,
+    completedSteps: [],
+    runId: null,
+    universityId: null,
+    buildingMap: {},
+    studySpotMap: {},
+    lectureHallMap: {},
+    collectionMaps: {},
+    processedPhotos: {},
+  };
+}
+
+/**
+ * Load the checkpoint left behind by an interrupted run, if there is one
+ */
+export function loadCheckpoint(university: string): MigrationCheckpoint | null {
+  const filePath = checkpointPath(university);
+  if (!fs.existsSync(filePath)) return null;
+  return { ...createCheckpoint(university), ...JSON.parse(fs.readFileSync(filePath, 'utf-8')) };
+}
+
+/**
+ * Persist the checkpoint. Writes to a temp file and renames it so a crash mid-write
+ * never leaves a truncated checkpoint behind.
+ */
+export function saveCheckpoint(checkpoint: MigrationCheckpoint): void {
+  const filePath = checkpointPath(checkpoint.university);
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  checkpoint.updatedAt = new Date().toISOString();
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(checkpoint, null, 2));
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * Remove the checkpoint once a run has completed
+ */
+export function clearCheckpoint(university: string): void {
+  const filePath = checkpointPath(university);
+  if (fs.existsSync(filePath)) {
+    fs.unlinkSync(filePath);
+  }
+}
+
+/**
+ * Mark a step as done and persist the checkpoint
+ */
+export function completeStep(checkpoint: MigrationCheckpoint, step: MigrationStep): void {
+  if (!checkpoint.completedSteps.includes(step)) {
+    checkpoint.completedSteps.push(step);
+  }
+  saveCheckpoint(checkpoint);
+}
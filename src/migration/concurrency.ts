@@ -0,0 +1,83 @@
+export interface RetryOptions {
+  // Attempts after the first one
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+};
+
+/**
+ * Error thrown once an operation has used up all of its retries
+ */
+export class RetryExhaustedError extends Error {
+  constructor(
+    public readonly stage: string,
+    public readonly attempts: number,
+    public readonly cause: unknown
+  ) {
+    super(`${stage} failed after ${attempts} attempts: ${cause}`);
+    this.name = 'RetryExhaustedError';
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay in [0, min(max, base * 2^attempt)]
+ */
+export function backoffDelay(attempt: number, options: RetryOptions): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Run an async operation, retrying with exponential backoff and jitter on failure
+ */
+export async function withRetry<T>(
+  stage: string,
+  operation: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS
+): Promise<T> {
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt <= options.retries; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      lastError = error;
+      if (attempt < options.retries) {
+        await sleep(backoffDelay(attempt, options));
+      }
+    }
+  }
+
+  throw new RetryExhaustedError(stage, options.retries + 1, lastError);
+}
+
+/**
+ * Run a worker over every item with at most `concurrency` in flight at once.
+ * The worker is responsible for its own error handling; a rejection stops the pool.
+ */
+export async function runPool<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+
+  const runners = Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(runners);
+}
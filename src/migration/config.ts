@@ -0,0 +1,42 @@
+import * as path from 'path';
+
+// Repository root; relative paths in university configs resolve against it
+export const ROOT_DIR = path.join(__dirname, '../..');
+
+// Directory the Firestore export writes to (see exportData.ts)
+export const DATA_DIR = path.join(ROOT_DIR, 'data/collections');
+
+// Directory run reports are written to (override with REPORTS_DIR, e.g. to keep test runs apart)
+export const REPORTS_DIR = path.resolve(process.env.REPORTS_DIR || path.join(ROOT_DIR, 'data/reports'));
+
+// One JSON file per university (see config/universities/wilfrid-laurier.json)
+export const UNIVERSITIES_CONFIG_DIR = path.join(ROOT_DIR, 'config/universities');
+
+// One JSON file per mapped Firestore collection (see config/mappings/study-rooms.json)
+export const MAPPINGS_CONFIG_DIR = path.join(ROOT_DIR, 'config/mappings');
+
+// Synonyms of the canonical feature, noise level and space type values (see migration/vocabularies.ts)
+export const VOCABULARIES_CONFIG = path.join(ROOT_DIR, 'config/vocabularies.json');
+
+// Bucket photos are uploaded to (override with STORAGE_BUCKET, e.g. for a MinIO bucket)
+export const STORAGE_BUCKET = process.env.STORAGE_BUCKET || 'occupeye-photos';
+
+// Named sizes every source image is turned into, bounded by their longest side.
+// The primary variant is stored at the photo's own storagePath and used for Photo.url.
+export const IMAGE_VARIANTS = [
+  { name: 'thumb', maxDimension: 320, quality: 75 },
+  { name: 'card', maxDimension: 800, quality: 80 },
+  { name: 'full', maxDimension: 1920, quality: 85 },
+];
+
+export const PRIMARY_VARIANT = 'full';
+
+// Longest side of the blurred placeholder embedded in Photo.placeholder
+export const PLACEHOLDER_SIZE = 16;
+
+// Longest the transaction of the university, building, study spot and lecture hall steps may stay open
+export const STRUCTURE_TRANSACTION_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Checkpoints written during a migration run (one per university) so it can be resumed with --resume
+// (override with CHECKPOINTS_DIR)
+export const CHECKPOINTS_DIR = path.resolve(process.env.CHECKPOINTS_DIR || path.join(ROOT_DIR, 'data/checkpoints'));
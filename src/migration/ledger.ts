@@ -0,0 +1,21 @@
+// Status of a MigrationRun row: running until it finishes, then succeeded or failed;
+// rolled_back once the rollback command has deleted what it created
+export type RunStatus = 'running' | 'succeeded' | 'failed' | 'rolled_back';
+
+export interface RunSummary {
+  id: string;
+  university: string;
+  status: string;
+  startedAt: Date;
+  finishedAt: Date | null;
+}
+
+/**
+ * One-line description of a run for listings, e.g. "3f2a… wilfrid-laurier succeeded 2025-01-01T00:00:00.000Z (42s)"
+ */
+export function describeRun(run: RunSummary): string {
+  const duration = run.finishedAt
+    ? ` (${Math.round((run.finishedAt.getTime() - run.startedAt.getTime()) / 1000)}s)`
+    : '';
+  return `${run.id} ${run.university} ${run.status} ${run.startedAt.toISOString()}${duration}`;
+}
@@ -0,0 +1,107 @@
+// Leveled logger for the migration. "pretty" prints messages as they always were; "json" writes one
+// JSON object per line (time, level, msg and the bound and per-call fields) for log collectors.
+// Configured with LOG_LEVEL / LOG_FORMAT, or the migrate command's --log-level / --log-format.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'pretty' | 'json';
+export type LogFields = Record<string, unknown>;
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+export const LOG_FORMATS: LogFormat[] = ['pretty', 'json'];
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // Logger that adds these fields to every entry (e.g. the university and run being migrated)
+  child(fields: LogFields): Logger;
+}
+
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  // Underlying error, for errors that wrap another (e.g. RetryExhaustedError)
+  cause?: SerializedError;
+}
+
+function envChoice<T extends string>(value: string | undefined, choices: T[], fallback: T): T {
+  return choices.includes(value as T) ? (value as T) : fallback;
+}
+
+let minLevel: LogLevel = envChoice(process.env.LOG_LEVEL, LOG_LEVELS, 'info');
+let format: LogFormat = envChoice(process.env.LOG_FORMAT, LOG_FORMATS, 'pretty');
+
+/**
+ * Change the level and format of every logger (already created ones included)
+ */
+export function configureLogging(settings: { level?: LogLevel; format?: LogFormat }): void {
+  minLevel = settings.level ?? minLevel;
+  format = settings.format ?? format;
+}
+
+/**
+ * Whether log entries are written as JSON lines (callers can skip decorative output then)
+ */
+export function isJsonLogging(): boolean {
+  return format === 'json';
+}
+
+/**
+ * Plain-object form of anything thrown, so it survives JSON.stringify.
+ * Stacks can be left out where the result is meant to be diffed (run reports).
+ */
+export function serializeError(error: unknown, includeStack: boolean = true): SerializedError {
+  if (!(error instanceof Error)) {
+    return { name: 'Error', message: String(error) };
+  }
+
+  const serialized: SerializedError = { name: error.name, message: error.message };
+  if (includeStack) {
+    serialized.stack = error.stack;
+  }
+
+  const cause = (error as { cause?: unknown }).cause;
+  if (cause !== undefined) {
+    serialized.cause = serializeError(cause, includeStack);
+  }
+  return serialized;
+}
+
+/**
+ * Error values among the fields are serialized; everything else is kept as is
+ */
+function toJsonFields(fields: LogFields): LogFields {
+  const result: LogFields = {};
+  for (const [key, value] of Object.entries(fields)) {
+    result[key] = value instanceof Error ? serializeError(value) : value;
+  }
+  return result;
+}
+
+function write(level: LogLevel, message: string, fields: LogFields): void {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minLevel)) return;
+
+  if (format === 'json') {
+    const entry = { time: new Date().toISOString(), level, msg: message.trim(), ...toJsonFields(fields) };
+    process.stdout.write(JSON.stringify(entry) + '\n');
+  } else if (level === 'error') {
+    console.error(message);
+  } else {
+    console.log(message);
+  }
+}
+
+/**
+ * Logger whose entries all carry the given fields
+ */
+export function createLogger(bound: LogFields = {}): Logger {
+  return {
+    debug: (message, fields = {}) => write('debug', message, { ...bound, ...fields }),
+    info: (message, fields = {}) => write('info', message, { ...bound, ...fields }),
+    warn: (message, fields = {}) => write('warn', message, { ...bound, ...fields }),
+    error: (message, fields = {}) => write('error', message, { ...bound, ...fields }),
+    child: fields => createLogger({ ...bound, ...fields }),
+  };
+}
@@ -0,0 +1,362 @@
+// Declarative mappings from Firestore collections to Prisma models, one JSON file per collection in
+// config/mappings. A mapping names the model its documents are upserted into (keyed on the university and
+// sourceId) and, for every column, the source field it comes from, the transforms applied to it and a default.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Prisma } from '../../generated/prisma/client';
+import { MAPPINGS_CONFIG_DIR } from './config';
+import { PHOTO_OWNERS } from './photos';
+import { ROOMS_COLLECTION, STUDY_ROOMS_COLLECTION } from './sourceData';
+import { isVocabulary } from './vocabularies';
+
+/**
+ * Applied to a source value in order:
+ * - trim, lowercase: a string, or each string of an array
+ * - yesNo: true for "yes", false for anything else
+ * - building: the building a raw building name resolves to (its ID when migrating)
+ * - { enum }: source value -> column value; a value it doesn't list fails the document
+ * - { vocabulary }: the canonical value of a term (see migration/vocabularies.ts). Unmapped terms are dropped
+ *   from lists; a single unmapped term falls back to the field's default, or fails the document.
+ */
+export type FieldTransform =
+  | 'trim'
+  | 'lowercase'
+  | 'yesNo'
+  | 'building'
+  | { enum: Record<string, unknown> }
+  | { vocabulary: string };
+
+const NAMED_TRANSFORMS = ['trim', 'lowercase', 'yesNo', 'building'];
+
+export interface FieldMapping {
+  // Dotted path into the source document, e.g. "information.av_inputs"; without it the default is always written
+  from?: string;
+  transforms?: FieldTransform[];
+  // Written when the source value is missing, null or ""; without one a missing value fails the document
+  default?: unknown;
+}
+
+export interface CollectionMapping {
+  collection: string;
+  model: Prisma.ModelName;
+  // Source field that names a document in logs and reports (the document ID when it's blank)
+  label: string;
+  // Target column -> where its value comes from
+  fields: Record<string, FieldMapping>;
+  // Source field holding the document's photo URLs, for models photos can belong to
+  photos?: string;
+}
+
+// The collections with steps of their own, and the models they have to map to
+const BUILT_IN_MODELS: Record<string, Prisma.ModelName> = {
+  [STUDY_ROOMS_COLLECTION]: 'StudySpot',
+  [ROOMS_COLLECTION]: 'LectureHall',
+};
+
+// Columns the engine writes itself
+const RESERVED_COLUMNS = ['id', 'sourceId', 'sourceUniversityId', 'migrationRunId'];
+
+// Columns every mapped model needs: rows are upserted on (sourceUniversityId, sourceId) and rolled back by
+// migrationRunId. The built-in collections are also pruned, which flags rows with sourceRemovedAt.
+const REQUIRED_COLUMNS = ['sourceId', 'sourceUniversityId', 'migrationRunId'];
+const PRUNED_COLUMNS = ['sourceRemovedAt'];
+
+export interface CollectionMappings {
+  studyRooms: CollectionMapping;
+  rooms: CollectionMapping;
+  // Every other mapped collection, migrated by the collections step
+  additional: CollectionMapping[];
+}
+
+// What the building and vocabulary transforms resolve values to
+export interface MappingLookups {
+  building(rawName: string): string;
+  // Canonical value of a term, or null when the vocabulary has none
+  term(vocabulary: string, term: string, sourceId: string): string | null;
+}
+
+/**
+ * A term no canonical value of its vocabulary matched
+ */
+class UnmappedTermError extends Error {
+  constructor(vocabulary: string, term: unknown, fieldPath: string) {
+    super(`No ${vocabulary} value for ${fieldPath} ${JSON.stringify(term)}`);
+    this.name = 'UnmappedTermError';
+  }
+}
+
+export interface MappedDocument {
+  sourceId: string;
+  label: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Scalar columns of a model, from the generated client
+ */
+export function modelColumns(model: string): string[] {
+  const fields = (Prisma as unknown as Record<string, Record<string, string> | undefined>)[`${model}ScalarFieldEnum`];
+  return Object.keys(fields || {});
+}
+
+/**
+ * Human name of a mapping's rows in messages: StudySpot -> "study spot"
+ */
+export function mappingNoun(mapping: CollectionMapping): string {
+  return mapping.model.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+}
+
+function readPath(document: Record<string, unknown>, fieldPath: string): unknown {
+  return fieldPath.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    document
+  );
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Apply a string function to a string or to each string of an array
+ */
+function mapStrings(value: unknown, transform: string, fieldPath: string, apply: (text: string) => string): unknown {
+  if (typeof value === 'string') return apply(value);
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) return value.map(apply);
+  throw new Error(`${transform} expects a string at ${fieldPath}, got ${JSON.stringify(value)}`);
+}
+
+/**
+ * Canonical value of a term, or of each term of a list (dropping unmapped ones and duplicates)
+ */
+function normalizeTerms(
+  value: unknown,
+  vocabulary: string,
+  fieldPath: string,
+  sourceId: string,
+  lookups: MappingLookups
+): unknown {
+  if (Array.isArray(value)) {
+    const terms = value.map(term => lookups.term(vocabulary, String(term), sourceId));
+    return [...new Set(terms.filter((term): term is string => term !== null))];
+  }
+
+  const canonical = lookups.term(vocabulary, String(value), sourceId);
+  if (canonical === null) {
+    throw new UnmappedTermError(vocabulary, value, fieldPath);
+  }
+  return canonical;
+}
+
+function applyTransform(
+  value: unknown,
+  transform: FieldTransform,
+  fieldPath: string,
+  sourceId: string,
+  lookups: MappingLookups
+): unknown {
+  switch (transform) {
+    case 'trim':
+      return mapStrings(value, transform, fieldPath, text => text.trim());
+    case 'lowercase':
+      return mapStrings(value, transform, fieldPath, text => text.toLowerCase());
+    case 'yesNo':
+      return value === 'yes';
+    case 'building':
+      return lookups.building(String(value));
+    default:
+      if ('vocabulary' in transform) {
+        return normalizeTerms(value, transform.vocabulary, fieldPath, sourceId, lookups);
+      }
+      if (!Object.prototype.hasOwnProperty.call(transform.enum, String(value))) {
+        throw new Error(`No mapping for ${fieldPath} value ${JSON.stringify(value)}`);
+      }
+      return transform.enum[String(value)];
+  }
+}
+
+/**
+ * Name of a source document in logs and reports: its label field, or its ID when that's blank
+ */
+export function documentLabel(mapping: CollectionMapping, document: unknown): string {
+  const source = (document || {}) as Record<string, unknown>;
+  const label = readPath(source, mapping.label);
+  return isBlank(label) ? String(source.id) : String(label);
+}
+
+/**
+ * Map one source document to the ID, label and column values of its row; throws if it can't be mapped
+ */
+export function mapDocument(mapping: CollectionMapping, document: unknown, lookups: MappingLookups): MappedDocument {
+  const source = (document || {}) as Record<string, unknown>;
+  if (typeof source.id !== 'string' || source.id === '') {
+    throw new Error(`Document in ${mapping.collection} has no id`);
+  }
+
+  const data: Record<string, unknown> = {};
+  for (const [column, field] of Object.entries(mapping.fields)) {
+    const value = field.from === undefined ? undefined : readPath(source, field.from);
+    if (isBlank(value) && 'default' in field) {
+      data[column] = field.default;
+      continue;
+    }
+    if (value === undefined || value === null) {
+      throw new Error(`Missing ${field.from} (mapped to ${column})`);
+    }
+
+    try {
+      data[column] = (field.transforms || []).reduce<unknown>(
+        (current, transform) => applyTransform(current, transform, field.from!, source.id as string, lookups),
+        value
+      );
+    } catch (error) {
+      if (!(error instanceof UnmappedTermError && 'default' in field)) throw error;
+      data[column] = field.default;
+    }
+  }
+
+  return { sourceId: source.id, label: documentLabel(mapping, source), data };
+}
+
+/**
+ * Photo URLs of a source document (none when the mapping has no photos field)
+ */
+export function photoUrls(mapping: CollectionMapping, document: unknown): string[] {
+  if (!mapping.photos) return [];
+  const urls = readPath((document || {}) as Record<string, unknown>, mapping.photos);
+  return Array.isArray(urls) ? urls.filter((url): url is string => typeof url === 'string') : [];
+}
+
+/**
+ * Raw building names a document refers to, i.e. the values of its fields with a building transform
+ */
+export function referencedBuildings(mapping: CollectionMapping, document: unknown): string[] {
+  return Object.values(mapping.fields)
+    .filter(field => field.from && field.transforms?.includes('building'))
+    .map(field => readPath((document || {}) as Record<string, unknown>, field.from!))
+    .filter((name): name is string => typeof name === 'string');
+}
+
+function isValidTransform(transform: unknown): transform is FieldTransform {
+  if (typeof transform === 'string') return NAMED_TRANSFORMS.includes(transform);
+  const { enum: values, vocabulary } = (transform || {}) as { enum?: unknown; vocabulary?: unknown };
+  if (vocabulary !== undefined) return typeof vocabulary === 'string' && isVocabulary(vocabulary);
+  return typeof values === 'object' && values !== null && !Array.isArray(values);
+}
+
+/**
+ * Check the shape of a parsed mapping file against the generated client, throwing a message that names the file
+ */
+function parseCollectionMapping(raw: unknown, filePath: string): CollectionMapping {
+  const mapping = raw as Partial<CollectionMapping>;
+  const problems: string[] = [];
+
+  for (const field of ['collection', 'model', 'label'] as const) {
+    if (typeof mapping?.[field] !== 'string' || mapping[field] === '') {
+      problems.push(`"${field}" must be a non-empty string`);
+    }
+  }
+
+  const columns = modelColumns(mapping?.model ?? '');
+  const builtInModel = BUILT_IN_MODELS[mapping?.collection ?? ''];
+  const missing = [...REQUIRED_COLUMNS, ...(builtInModel ? PRUNED_COLUMNS : [])].filter(column => !columns.includes(column));
+  if (mapping?.model && missing.length > 0) {
+    problems.push(`model "${mapping.model}" doesn't exist or has no ${missing.join(', ')} column${missing.length > 1 ? 's' : ''}`);
+  }
+
+  if (builtInModel && mapping.model !== builtInModel) {
+    problems.push(`${mapping.collection} has to map to ${builtInModel}`);
+  }
+  if (!builtInModel && Object.values(BUILT_IN_MODELS).includes(mapping?.model as Prisma.ModelName)) {
+    problems.push(`${mapping.model} rows only come from ${Object.keys(BUILT_IN_MODELS).find(c => BUILT_IN_MODELS[c] === mapping.model)}`);
+  }
+
+  const fields = mapping?.fields;
+  if (typeof fields !== 'object' || fields === null || Array.isArray(fields)) {
+    problems.push('"fields" must map column names to field mappings');
+  } else {
+    for (const [column, field] of Object.entries(fields)) {
+      if (RESERVED_COLUMNS.includes(column) || (columns.length > 0 && !columns.includes(column))) {
+        problems.push(`"${column}" is not a column the mapping can write`);
+      }
+      if (field?.from !== undefined && typeof field.from !== 'string') {
+        problems.push(`"${column}.from" must be a field path`);
+      }
+      if (field?.from === undefined && !('default' in (field || {}))) {
+        problems.push(`"${column}" needs "from" or "default"`);
+      }
+      if (field?.transforms !== undefined && (!Array.isArray(field.transforms) || !field.transforms.every(isValidTransform))) {
+        problems.push(
+          `"${column}.transforms" must list ${NAMED_TRANSFORMS.join(', ')}, { "enum": {...} } or { "vocabulary": <enum> } transforms`
+        );
+      }
+    }
+  }
+
+  if (mapping?.photos !== undefined && (typeof mapping.photos !== 'string' || !PHOTO_OWNERS[mapping.model ?? ''])) {
+    problems.push(`"photos" must be a field path, on a model photos can belong to (${Object.keys(PHOTO_OWNERS).join(', ')})`);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid mapping config ${filePath}: ${problems.join('; ')}`);
+  }
+
+  return mapping as CollectionMapping;
+}
+
+/**
+ * Every mapped collection, built-in ones first
+ */
+export function mappedCollections(mappings: CollectionMappings): string[] {
+  return [mappings.studyRooms, mappings.rooms, ...mappings.additional].map(mapping => mapping.collection);
+}
+
+/**
+ * Load every collection mapping. The study-rooms and rooms mappings are required.
+ */
+export function loadCollectionMappings(configDir: string = MAPPINGS_CONFIG_DIR): CollectionMappings {
+  if (!fs.existsSync(configDir)) {
+    throw new Error(`Mapping config directory not found: ${configDir}`);
+  }
+
+  const mappings = new Map<string, CollectionMapping>();
+  for (const file of fs.readdirSync(configDir).filter(file => file.endsWith('.json')).sort()) {
+    const filePath = path.join(configDir, file);
+    const mapping = parseCollectionMapping(JSON.parse(fs.readFileSync(filePath, 'utf-8')), filePath);
+    if (mappings.has(mapping.collection)) {
+      throw new Error(`Collection ${mapping.collection} is mapped twice (${filePath})`);
+    }
+    mappings.set(mapping.collection, mapping);
+  }
+
+  for (const collection of Object.keys(BUILT_IN_MODELS)) {
+    if (!mappings.has(collection)) {
+      throw new Error(`No mapping config for ${collection} in ${configDir}`);
+    }
+  }
+
+  return {
+    studyRooms: mappings.get(STUDY_ROOMS_COLLECTION)!,
+    rooms: mappings.get(ROOMS_COLLECTION)!,
+    additional: [...mappings.values()].filter(mapping => !BUILT_IN_MODELS[mapping.collection]),
+  };
+}
+
+// The model methods the engine uses, typed loosely since the model is only known at runtime
+export interface ModelDelegate {
+  findMany(args: object): Promise<({ id: string; sourceId: string | null } & Record<string, unknown>)[]>;
+  createManyAndReturn(args: object): Promise<{ id: string; sourceId: string | null }[]>;
+  update(args: object): Promise<unknown>;
+  upsert(args: object): Promise<{ id: string }>;
+  count(args: object): Promise<number>;
+  deleteMany(args: object): Prisma.PrismaPromise<unknown>;
+}
+
+/**
+ * Client methods of a mapping's model
+ */
+export function modelDelegate(db: Prisma.TransactionClient, model: Prisma.ModelName): ModelDelegate {
+  const key = (model.charAt(0).toLowerCase() + model.slice(1)) as Uncapitalize<Prisma.ModelName>;
+  return db[key] as unknown as ModelDelegate;
+}
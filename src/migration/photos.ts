@@ -0,0 +1,132 @@
+import axios from 'axios';
+import sharp from 'sharp';
+import { IMAGE_VARIANTS, PLACEHOLDER_SIZE, PRIMARY_VARIANT } from './config';
+
+// Photo column pointing at the row a photo belongs to
+export type PhotoOwner = { studySpotId: string } | { lectureHallId: string };
+
+// One photo to download, optimize and upload
+export interface PhotoJob {
+  label: string;
+  sourceUrl: string;
+  storagePath: string;
+  owner: PhotoOwner;
+}
+
+// A photo that still failed after all of its retries
+export interface FailedPhoto {
+  label: string;
+  sourceUrl: string;
+  storagePath: string;
+  stage: string;
+  error: string;
+}
+
+/**
+ * Storage path for the i-th photo of a study spot, under a university's storage prefix
+ */
+export function studySpotPhotoPath(storagePrefix: string, studySpotId: string, index: number): string {
+  return `${storagePrefix}/photos/study-spots/${studySpotId}/${index}.webp`;
+}
+
+/**
+ * Storage path for the i-th photo of a lecture hall, under a university's storage prefix
+ */
+export function lectureHallPhotoPath(storagePrefix: string, lectureHallId: string, index: number): string {
+  return `${storagePrefix}/photos/lecture-halls/${lectureHallId}/${index}.webp`;
+}
+
+// Models photos can belong to: how a photo points at its row, and where the row's photos are stored
+export const PHOTO_OWNERS: Record<string, {
+  owner(id: string): PhotoOwner;
+  photoPath(storagePrefix: string, id: string, index: number): string;
+}> = {
+  StudySpot: { owner: id => ({ studySpotId: id }), photoPath: studySpotPhotoPath },
+  LectureHall: { owner: id => ({ lectureHallId: id }), photoPath: lectureHallPhotoPath },
+};
+
+/**
+ * Storage path of a named variant. The primary variant lives at the photo's own path,
+ * the others next to it: ".../0.webp" -> ".../0.thumb.webp"
+ */
+export function variantPath(storagePath: string, variantName: string): string {
+  if (variantName === PRIMARY_VARIANT) return storagePath;
+  return storagePath.replace(/\.webp$/, `.${variantName}.webp`);
+}
+
+/**
+ * Storage paths of every variant of a photo
+ */
+export function variantPaths(storagePath: string): string[] {
+  return IMAGE_VARIANTS.map(variant => variantPath(storagePath, variant.name));
+}
+
+/**
+ * Download image from URL
+ */
+export async function downloadImage(url: string): Promise<Buffer> {
+  try {
+    const response = await axios.get(url, {
+      responseType: 'arraybuffer',
+      timeout: 30000, // 30 second timeout
+    });
+    return Buffer.from(response.data);
+  } catch (error) {
+    throw new Error(`Failed to download image from ${url}: ${error}`);
+  }
+}
+
+export interface ImageVariant {
+  name: string;
+  buffer: Buffer;
+  width: number;
+  height: number;
+  bytes: number;
+  mimeType: string;
+}
+
+export interface ProcessedImage {
+  variants: ImageVariant[];
+  placeholder: string;
+}
+
+/**
+ * Turn a source image into every configured WebP variant plus an LQIP placeholder.
+ * Variants are fitted inside their max dimension and never enlarged.
+ */
+export async function createImageVariants(buffer: Buffer): Promise<ProcessedImage> {
+  try {
+    const variants: ImageVariant[] = [];
+    
+    for (const variant of IMAGE_VARIANTS) {
+      const { data, info } = await sharp(buffer)
+        .rotate() // respect EXIF orientation
+        .resize(variant.maxDimension, variant.maxDimension, { fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: variant.quality })
+        .toBuffer({ resolveWithObject: true });
+      
+      variants.push({
+        name: variant.name,
+        buffer: data,
+        width: info.width,
+        height: info.height,
+        bytes: info.size,
+        mimeType: 'image/webp',
+      });
+    }
+    
+    const placeholder = await sharp(buffer)
+      .rotate()
+      .resize(PLACEHOLDER_SIZE, PLACEHOLDER_SIZE, { fit: 'inside' })
+      .blur()
+      .webp({ quality: 20 })
+      .toBuffer();
+    
+    return {
+      variants,
+      placeholder: `data:image/webp;base64,${placeholder.toString('base64')}`,
+    };
+  } catch (error) {
+    throw new Error(`Failed to optimize image: ${error}`);
+  }
+}
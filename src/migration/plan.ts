@@ -0,0 +1,226 @@
+import { IMAGE_VARIANTS, STORAGE_BUCKET } from './config';
+import {
+  BuildingResolution,
+  BuildingResolver,
+  DEFAULT_MATCH_THRESHOLD,
+  unresolvedBuildingMessage,
+} from './buildings';
+import {
+  CollectionMapping,
+  documentLabel,
+  loadCollectionMappings,
+  mapDocument,
+  mappingNoun,
+  photoUrls,
+  referencedBuildings,
+} from './mappings';
+import { PHOTO_OWNERS, variantPaths } from './photos';
+import { saveReport } from './reports';
+import { MigrationSource } from './sources';
+import { resolveStoragePrefix, UniversityConfig } from './universities';
+import { describeIssues, validateSourceData, ValidationReport } from './validation';
+import {
+  countUnmapped,
+  loadVocabularies,
+  NormalizationReport,
+  printNormalizationReport,
+  VocabularyNormalizer,
+} from './vocabularies';
+
+export interface PlannedFailure {
+  model: CollectionMapping['model'];
+  sourceId: string;
+  name: string;
+  reason: string;
+}
+
+export interface MigrationPlan {
+  generatedAt: string;
+  // Where the source documents were read from (export directory or Firestore)
+  source: string;
+  storageBucket: string;
+  counts: {
+    university: number;
+    buildings: number;
+    studySpots: number;
+    lectureHalls: number;
+    // Rows per other mapped collection
+    collections: Record<string, number>;
+    photos: number;
+  };
+  // Every raw building name whose canonical name differs from it, or that needs confirming
+  buildingMappings: (BuildingResolution & { occurrences: number })[];
+  validation: ValidationReport[];
+  // Feature, noise level and space type values that would be rewritten, and those that couldn't be mapped
+  normalization: NormalizationReport[];
+  failures: PlannedFailure[];
+  writes: {
+    university: { name: string; slug: string };
+    buildings: string[];
+    studySpots: Record<string, unknown>[];
+    lectureHalls: Record<string, unknown>[];
+    collections: Record<string, Record<string, unknown>[]>;
+  };
+  uploads: { sourceUrl: string; storagePaths: string[] }[];
+  // Source IDs a changeset lists as deleted (only when planning a --changeset run)
+  deletions: { studyRooms: string[]; rooms: string[] } | null;
+}
+
+/**
+ * Compute every write the migration would make, without touching Postgres or Storage.
+ * IDs that only exist after a real run are shown as placeholders, e.g. <study-spot:{sourceId}>.
+ */
+export async function buildMigrationPlan(
+  config: UniversityConfig,
+  source: MigrationSource,
+  createUnknownBuildings: boolean = false
+): Promise<MigrationPlan> {
+  const mappings = loadCollectionMappings();
+  const normalizer = new VocabularyNormalizer(loadVocabularies());
+  const sourceData = await source.load();
+  const { reports, studyRooms, rooms } = validateSourceData(sourceData.studyRooms, sourceData.rooms);
+  const collections = new Map<CollectionMapping, unknown[]>([
+    [mappings.studyRooms, studyRooms],
+    [mappings.rooms, rooms],
+  ]);
+  for (const mapping of mappings.additional) {
+    collections.set(mapping, await source.loadCollection(mapping.collection));
+  }
+
+  const storagePrefix = resolveStoragePrefix(config, `<university:${config.slug}>`);
+  const failures: PlannedFailure[] = [];
+
+  // Invalid documents abort a strict run and are skipped by a lenient one
+  for (const report of reports) {
+    for (const doc of report.documents) {
+      if (doc.valid) continue;
+      failures.push({
+        model: report.collection === 'rooms' ? 'LectureHall' : 'StudySpot',
+        sourceId: doc.id,
+        name: doc.id,
+        reason: `Failed validation: ${describeIssues(doc)}`,
+      });
+    }
+  }
+
+  // Without a database only the config's aliases are known buildings
+  const resolver = new BuildingResolver(
+    config.buildingAliases,
+    [],
+    config.buildingMatchThreshold ?? DEFAULT_MATCH_THRESHOLD,
+    createUnknownBuildings
+  );
+  const buildingNames = resolver.resolveAll(
+    [...collections].flatMap(([mapping, documents]) => documents.flatMap(document => referencedBuildings(mapping, document)))
+  );
+  const lookups = {
+    building: (rawName: string) => {
+      const resolution = resolver.resolve(rawName);
+      if (!resolution.building) {
+        throw new Error(unresolvedBuildingMessage(resolution));
+      }
+      return `<building:${resolution.building}>`;
+    },
+    term: (vocabulary: string, term: string, sourceId: string) => normalizer.normalize(vocabulary, term, sourceId),
+  };
+
+  const writes = new Map<CollectionMapping, Record<string, unknown>[]>();
+  const uploads: { sourceUrl: string; storagePaths: string[] }[] = [];
+
+  for (const [mapping, documents] of collections) {
+    const rows: Record<string, unknown>[] = [];
+    writes.set(mapping, rows);
+
+    for (const document of documents) {
+      try {
+        const { sourceId, data } = mapDocument(mapping, document, lookups);
+        rows.push({ sourceId, ...data });
+
+        const id = `<${mappingNoun(mapping).replace(/ /g, '-')}:${sourceId}>`;
+        photoUrls(mapping, document).forEach((sourceUrl, i) => {
+          uploads.push({ sourceUrl, storagePaths: variantPaths(PHOTO_OWNERS[mapping.model].photoPath(storagePrefix, id, i)) });
+        });
+      } catch (error) {
+        const sourceId = String((document as { id?: unknown })?.id);
+        failures.push({ model: mapping.model, sourceId, name: documentLabel(mapping, document), reason: `${error}` });
+      }
+    }
+  }
+
+  const additional = Object.fromEntries(mappings.additional.map(mapping => [mapping.collection, writes.get(mapping)!]));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    source: source.description,
+    storageBucket: STORAGE_BUCKET,
+    counts: {
+      university: 1,
+      buildings: buildingNames.size,
+      studySpots: writes.get(mappings.studyRooms)!.length,
+      lectureHalls: writes.get(mappings.rooms)!.length,
+      collections: Object.fromEntries(Object.entries(additional).map(([collection, rows]) => [collection, rows.length])),
+      photos: uploads.length,
+    },
+    buildingMappings: resolver
+      .resolutionsSeen()
+      .filter(resolution => resolution.building !== resolution.raw),
+    validation: reports,
+    normalization: normalizer.report(),
+    failures,
+    writes: {
+      university: { name: config.name, slug: config.slug },
+      buildings: [...buildingNames],
+      studySpots: writes.get(mappings.studyRooms)!,
+      lectureHalls: writes.get(mappings.rooms)!,
+      collections: additional,
+    },
+    uploads,
+    deletions: sourceData.deleted,
+  };
+}
+
+/**
+ * Print a human-readable summary of a migration plan
+ */
+export function printMigrationPlan(plan: MigrationPlan): void {
+  console.log('\n' + '='.repeat(60));
+  console.log('📝 MIGRATION PLAN (dry run - nothing was written)');
+  console.log('='.repeat(60));
+  console.log(`Source: ${plan.source}`);
+  console.log(`University: ${plan.counts.university} (${plan.writes.university.name})`);
+  console.log(`Buildings: ${plan.counts.buildings}`);
+  console.log(`Study Spots: ${plan.counts.studySpots}`);
+  console.log(`Lecture Halls: ${plan.counts.lectureHalls}`);
+  Object.entries(plan.counts.collections).forEach(([collection, count]) => console.log(`${collection}: ${count}`));
+  console.log(`Photos: ${plan.counts.photos} (${plan.counts.photos * IMAGE_VARIANTS.length} variant uploads to bucket '${plan.storageBucket}')`);
+  if (plan.deletions) {
+    console.log(`Deleted in changeset: ${plan.deletions.studyRooms.length} study spots, ${plan.deletions.rooms.length} lecture halls`);
+  }
+  console.log(`Unmapped vocabulary values: ${countUnmapped(plan.normalization)}`);
+  console.log(`Would fail: ${plan.failures.length}`);
+  console.log('='.repeat(60));
+
+  if (plan.buildingMappings.length > 0) {
+    console.log('\n🏢 Building name mappings applied:');
+    plan.buildingMappings.forEach(mapping => {
+      const target = mapping.building ? `"${mapping.building}"` : 'UNRESOLVED';
+      console.log(`  "${mapping.raw}" → ${target} [${mapping.method}, ${mapping.confidence}] (${mapping.occurrences}x)`);
+    });
+  }
+
+  printNormalizationReport(plan.normalization);
+
+  if (plan.failures.length > 0) {
+    console.log('\n⚠️  Records that would fail:');
+    plan.failures.forEach((failure, index) => {
+      console.log(`${index + 1}. ${failure.model} ${failure.name} (${failure.sourceId}): ${failure.reason}`);
+    });
+  }
+}
+
+/**
+ * Write the full plan to a timestamped JSON file and return its path
+ */
+export function saveMigrationPlan(plan: MigrationPlan): string {
+  return saveReport(`migration-plan-${plan.writes.university.slug}`, plan);
+}
@@ -0,0 +1,280 @@
+import { CollectionMapping, documentLabel, mapDocument, MappingLookups, photoUrls } from './mappings';
+import { RoomData, StudyRoomData } from './sourceData';
+import { VocabularyConfig, VocabularyNormalizer } from './vocabularies';
+
+type ReconciledModel = 'StudySpot' | 'LectureHall';
+
+// The columns of a migrated row that are compared with its source document
+export interface StudySpotRow {
+  id: string;
+  sourceId: string;
+  sourceRemovedAt: Date | null;
+  name: string;
+  location: string;
+  features: string[];
+  noiseLevel: string;
+  photoCount: number;
+}
+
+export interface LectureHallRow {
+  id: string;
+  sourceId: string;
+  sourceRemovedAt: Date | null;
+  room: string;
+  hasAvInputs: boolean;
+  hasPc: boolean;
+  hasWhiteboard: boolean;
+  hasProjector: boolean;
+  photoCount: number;
+}
+
+export interface FieldDifference {
+  field: string;
+  source: unknown;
+  target: unknown;
+}
+
+export interface RecordRef {
+  model: ReconciledModel;
+  sourceId: string;
+  label: string;
+}
+
+export interface RecordMismatch extends RecordRef {
+  id: string;
+  differences: FieldDifference[];
+}
+
+export interface ReconciliationReport {
+  university: string;
+  generatedAt: string;
+  counts: Record<ReconciledModel, { source: number; target: number; matched: number }>;
+  // In the source but not in Postgres
+  missing: RecordRef[];
+  // In Postgres (and not flagged as removed) but not in the source
+  extra: (RecordRef & { id: string })[];
+  // Matched by source ID but with different fields or photo counts
+  mismatched: RecordMismatch[];
+  // Rows flagged with sourceRemovedAt, which are expected to be absent from the source
+  flaggedRemoved: number;
+  // Source documents that failed validation and were left out of the comparison
+  invalidSource: Omit<RecordRef, 'label'>[];
+}
+
+/**
+ * Whether two field values are equal; arrays are compared element by element
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => item === b[index]);
+  }
+  return a === b;
+}
+
+/**
+ * Match source documents and rows by source ID and collect every difference
+ */
+function reconcileModel<Doc extends { id: string }, Row extends { id: string; sourceId: string; sourceRemovedAt: Date | null }>(
+  model: ReconciledModel,
+  docs: Doc[],
+  rows: Row[],
+  label: (doc: Doc) => string,
+  rowLabel: (row: Row) => string,
+  expected: (doc: Doc) => Record<string, unknown>,
+  actual: (row: Row) => Record<string, unknown>,
+  report: ReconciliationReport
+): void {
+  const rowsBySourceId = new Map(rows.map(row => [row.sourceId, row]));
+  const invalidIds = report.invalidSource.filter(record => record.model === model).map(record => record.sourceId);
+  const sourceIds = new Set([...docs.map(doc => doc.id), ...invalidIds]);
+  let matched = 0;
+
+  for (const doc of docs) {
+    const row = rowsBySourceId.get(doc.id);
+    if (!row) {
+      report.missing.push({ model, sourceId: doc.id, label: label(doc) });
+      continue;
+    }
+
+    const sourceFields = expected(doc);
+    const targetFields = actual(row);
+    const differences = Object.keys(sourceFields)
+      .filter(field => !sameValue(sourceFields[field], targetFields[field]))
+      .map(field => ({ field, source: sourceFields[field], target: targetFields[field] }));
+
+    if (differences.length > 0) {
+      report.mismatched.push({ model, sourceId: doc.id, label: label(doc), id: row.id, differences });
+    } else {
+      matched++;
+    }
+  }
+
+  for (const row of rows) {
+    if (sourceIds.has(row.sourceId)) continue;
+    if (row.sourceRemovedAt) {
+      report.flaggedRemoved++;
+    } else {
+      report.extra.push({ model, sourceId: row.sourceId, label: rowLabel(row), id: row.id });
+    }
+  }
+
+  report.counts[model] = { source: docs.length, target: rows.length, matched };
+}
+
+/**
+ * The compared columns of each document as its mapping writes them, plus its photo count.
+ * Documents the mapping can't map are left out of the comparison, like invalid ones.
+ */
+function mapSource(
+  model: ReconciledModel,
+  mapping: CollectionMapping,
+  docs: { id: string }[],
+  columns: string[],
+  lookups: MappingLookups,
+  report: ReconciliationReport
+): { id: string; label: string; fields: Record<string, unknown> }[] {
+  const mapped = [];
+  for (const doc of docs) {
+    try {
+      const { data } = mapDocument(mapping, doc, lookups);
+      const fields: Record<string, unknown> = Object.fromEntries(columns.map(column => [column, data[column]]));
+      fields.photos = photoUrls(mapping, doc).length;
+      mapped.push({ id: doc.id, label: documentLabel(mapping, doc), fields });
+    } catch {
+      report.invalidSource.push({ model, sourceId: doc.id });
+    }
+  }
+  return mapped;
+}
+
+/**
+ * Compare the source documents of a university, as their mappings write them, with the rows the migration wrote
+ */
+export function reconcile(
+  university: string,
+  mappings: { studyRooms: CollectionMapping; rooms: CollectionMapping },
+  vocabularies: VocabularyConfig,
+  source: { studyRooms: StudyRoomData[]; rooms: RoomData[]; invalid: Omit<RecordRef, 'label'>[] },
+  target: { studySpots: StudySpotRow[]; lectureHalls: LectureHallRow[] }
+): ReconciliationReport {
+  const report: ReconciliationReport = {
+    university,
+    generatedAt: new Date().toISOString(),
+    counts: {
+      StudySpot: { source: 0, target: 0, matched: 0 },
+      LectureHall: { source: 0, target: 0, matched: 0 },
+    },
+    missing: [],
+    extra: [],
+    mismatched: [],
+    flaggedRemoved: 0,
+    invalidSource: [...source.invalid],
+  };
+
+  // Buildings aren't compared, so building names are left as they are
+  const normalizer = new VocabularyNormalizer(vocabularies);
+  const lookups: MappingLookups = {
+    building: rawName => rawName,
+    term: (vocabulary, term, sourceId) => normalizer.normalize(vocabulary, term, sourceId),
+  };
+
+  reconcileModel(
+    'StudySpot',
+    mapSource('StudySpot', mappings.studyRooms, source.studyRooms, ['name', 'location', 'features', 'noiseLevel'], lookups, report),
+    target.studySpots,
+    room => room.label,
+    spot => spot.name,
+    room => room.fields,
+    spot => ({
+      name: spot.name,
+      location: spot.location,
+      features: spot.features,
+      noiseLevel: spot.noiseLevel,
+      photos: spot.photoCount,
+    }),
+    report
+  );
+
+  reconcileModel(
+    'LectureHall',
+    mapSource(
+      'LectureHall',
+      mappings.rooms,
+      source.rooms,
+      ['room', 'hasAvInputs', 'hasPc', 'hasWhiteboard', 'hasProjector'],
+      lookups,
+      report
+    ),
+    target.lectureHalls,
+    room => room.label,
+    hall => hall.room,
+    room => room.fields,
+    hall => ({
+      room: hall.room,
+      hasAvInputs: hall.hasAvInputs,
+      hasPc: hall.hasPc,
+      hasWhiteboard: hall.hasWhiteboard,
+      hasProjector: hall.hasProjector,
+      photos: hall.photoCount,
+    }),
+    report
+  );
+
+  return report;
+}
+
+/**
+ * Whether the report found anything that doesn't match
+ */
+export function hasDiscrepancies(report: ReconciliationReport): boolean {
+  return report.missing.length > 0 || report.extra.length > 0 || report.mismatched.length > 0;
+}
+
+/**
+ * Human-readable version of a reconciliation report, one line per entry
+ */
+export function formatReconciliationReport(report: ReconciliationReport): string[] {
+  const lines = [
+    '='.repeat(60),
+    `🧮 RECONCILIATION: ${report.university}`,
+    '='.repeat(60),
+  ];
+
+  for (const [model, counts] of Object.entries(report.counts)) {
+    lines.push(`${model}: ${counts.source} in source, ${counts.target} in Postgres, ${counts.matched} identical`);
+  }
+  lines.push(`Missing: ${report.missing.length}`);
+  lines.push(`Extra: ${report.extra.length}`);
+  lines.push(`Mismatched: ${report.mismatched.length}`);
+  lines.push(`Flagged as removed: ${report.flaggedRemoved}`);
+  if (report.invalidSource.length > 0) {
+    lines.push(`Not compared (failed validation): ${report.invalidSource.map(record => `${record.model} ${record.sourceId}`).join(', ')}`);
+  }
+  lines.push('='.repeat(60));
+
+  if (report.missing.length > 0) {
+    lines.push('', '❓ Missing from Postgres:');
+    report.missing.forEach(record => lines.push(`  ${record.model} ${record.label} (${record.sourceId})`));
+  }
+
+  if (report.extra.length > 0) {
+    lines.push('', '➕ Not in the source:');
+    report.extra.forEach(record => lines.push(`  ${record.model} ${record.label} (${record.sourceId}, row ${record.id})`));
+  }
+
+  if (report.mismatched.length > 0) {
+    lines.push('', '≠ Field differences (source → Postgres):');
+    for (const record of report.mismatched) {
+      lines.push(`  ${record.model} ${record.label} (${record.sourceId}):`);
+      record.differences.forEach(difference => {
+        lines.push(`    ${difference.field}: ${JSON.stringify(difference.source)} → ${JSON.stringify(difference.target)}`);
+      });
+    }
+  }
+
+  if (!hasDiscrepancies(report)) {
+    lines.push('', '✅ Postgres matches the source');
+  }
+
+  return lines;
+}
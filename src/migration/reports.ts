@@ -0,0 +1,39 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { REPORTS_DIR } from './config';
+
+/**
+ * Write content to a timestamped file (e.g. migration-plan-2025-01-01T00-00-00-000Z.json)
+ * in outputDir and return its path
+ */
+function writeReportFile(name: string, extension: string, content: string, outputDir: string): string {
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const filePath = path.join(outputDir, `${name}-${timestamp}.${extension}`);
+  fs.writeFileSync(filePath, content);
+  return filePath;
+}
+
+/**
+ * Write a report to a timestamped JSON file and return its path
+ */
+export function saveReport(name: string, report: unknown, outputDir: string = REPORTS_DIR): string {
+  return writeReportFile(name, 'json', JSON.stringify(report, null, 2), outputDir);
+}
+
+/**
+ * Write a human-readable report (one entry per line) next to the JSON reports and return its path
+ */
+export function saveTextReport(name: string, lines: string[], outputDir: string = REPORTS_DIR): string {
+  return writeReportFile(name, 'txt', lines.join('\n') + '\n', outputDir);
+}
+
+/**
+ * Write a Markdown report next to the JSON reports and return its path
+ */
+export function saveMarkdownReport(name: string, markdown: string, outputDir: string = REPORTS_DIR): string {
+  return writeReportFile(name, 'md', markdown, outputDir);
+}
@@ -0,0 +1,154 @@
+import { Prisma } from '../../generated/prisma/client';
+import { MigrationStep } from './checkpoint';
+import { SerializedError, serializeError } from './logger';
+import { FailedPhoto } from './photos';
+import { saveMarkdownReport, saveReport } from './reports';
+
+// Model a record concerns
+export type EntityType = Prisma.ModelName;
+
+/**
+ * One thing that failed during a run, with enough context to find it in both databases
+ */
+export interface MigrationErrorRecord {
+  step: MigrationStep;
+  entityType: EntityType;
+  // Firestore document ID; the building name for buildings, the source URL for photos
+  sourceId: string | null;
+  // Postgres row ID when the row exists; the storage path for photos
+  targetId: string | null;
+  // What failed, e.g. "Failed to upsert study spot Library 3F"
+  message: string;
+  error: SerializedError;
+}
+
+export interface RunCounts {
+  university: number;
+  buildings: number;
+  studySpots: number;
+  lectureHalls: number;
+  // Rows upserted per collection migrated by the collections step
+  collections: Record<string, number>;
+  photos: number;
+  photosUnchanged: number;
+  removed: { studySpots: number; lectureHalls: number; photos: number };
+}
+
+/**
+ * Everything a migration run did, written as JSON (for tooling and diffs) and Markdown (for people)
+ */
+export interface RunReport {
+  runId: string;
+  university: { slug: string; name: string };
+  status: 'succeeded' | 'failed';
+  startedAt: string;
+  finishedAt: string;
+  durationSeconds: number;
+  steps: MigrationStep[];
+  options: Record<string, unknown>;
+  counts: RunCounts;
+  errors: MigrationErrorRecord[];
+  failedPhotos: FailedPhoto[];
+  // What aborted the run, when it failed
+  fatalError: SerializedError | null;
+}
+
+/**
+ * Error record for an entity, with the underlying error serialized (without its stack, so reports diff cleanly)
+ */
+export function createErrorRecord(
+  step: MigrationStep,
+  entityType: EntityType,
+  ids: { sourceId?: string | null; targetId?: string | null },
+  message: string,
+  error: unknown
+): MigrationErrorRecord {
+  return {
+    step,
+    entityType,
+    sourceId: ids.sourceId ?? null,
+    targetId: ids.targetId ?? null,
+    message,
+    error: serializeError(error, false),
+  };
+}
+
+/**
+ * Table cell text: pipes escaped, newlines flattened
+ */
+function cell(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value).replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+function table(headers: string[], rows: unknown[][]): string[] {
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(cell).join(' | ')} |`),
+  ];
+}
+
+/**
+ * Markdown summary of a run report
+ */
+export function formatRunReportMarkdown(report: RunReport): string {
+  const { counts } = report;
+  const lines = [
+    `# Migration run: ${report.university.name} (${report.university.slug})`,
+    '',
+    ...table(['', ''], [
+      ['Run', `\`${report.runId}\``],
+      ['Status', report.status],
+      ['Started', report.startedAt],
+      ['Finished', report.finishedAt],
+      ['Duration', `${report.durationSeconds}s`],
+      ['Steps', report.steps.join(', ')],
+    ]),
+    '',
+    '## Counts',
+    '',
+    ...table(['Entity', 'Upserted', 'Removed from source'], [
+      ['University', counts.university, ''],
+      ['Buildings', counts.buildings, ''],
+      ['Study spots', counts.studySpots, counts.removed.studySpots],
+      ['Lecture halls', counts.lectureHalls, counts.removed.lectureHalls],
+      ...Object.entries(counts.collections).map(([collection, count]) => [collection, count, '']),
+      ['Photos', `${counts.photos} (${counts.photosUnchanged} unchanged)`, counts.removed.photos],
+    ]),
+  ];
+
+  if (report.fatalError) {
+    lines.push('', '## Fatal error', '', '```', `${report.fatalError.name}: ${report.fatalError.message}`, '```');
+  }
+
+  lines.push('', `## Errors (${report.errors.length})`, '');
+  if (report.errors.length === 0) {
+    lines.push('None.');
+  } else {
+    lines.push(...table(
+      ['Step', 'Entity', 'Source ID', 'Target ID', 'Error'],
+      report.errors.map(error => [error.step, error.entityType, error.sourceId, error.targetId, `${error.message}: ${error.error.message}`])
+    ));
+  }
+
+  if (report.failedPhotos.length > 0) {
+    lines.push('', `## Photos that exhausted their retries (${report.failedPhotos.length})`, '');
+    lines.push(...table(
+      ['Stage', 'Photo', 'Source URL'],
+      report.failedPhotos.map(photo => [photo.stage, photo.label, photo.sourceUrl])
+    ));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Write a run report as JSON and Markdown; returns both paths
+ */
+export function saveRunReport(report: RunReport): { jsonPath: string; markdownPath: string } {
+  const name = `migration-run-${report.university.slug}`;
+  return {
+    jsonPath: saveReport(name, report),
+    markdownPath: saveMarkdownReport(name, formatRunReportMarkdown(report)),
+  };
+}
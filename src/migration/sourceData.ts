@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DATA_DIR } from './config';
+import {
+  CHANGESET_MANIFEST_FILE,
+  ManifestVerification,
+  MANIFEST_FILE,
+  verifyExportManifest,
+} from '../services/exportManifest';
+import { changesetFileName, ExportChangeset } from '../services/exportState';
+import { decodeFirestoreValue } from '../services/firestoreTypes';
+import { readNdjson } from '../services/ndjson';
+
+// Types for JSON data
+export interface StudyRoomData {
+  id: string;
+  name: string;
+  building: string;
+  spaceType?: string;
+  location: string;
+  imageURL?: string[];
+  features: string[];
+  noiseLevel: string;
+  capacity?: number;
+  description: string;
+}
+
+export interface RoomData {
+  id: string;
+  building: string;
+  photos?: string[];
+  room: string;
+  information: {
+    av_inputs: string;
+    pc: string;
+    whiteboard: string;
+    projector: string;
+  };
+}
+
+// Firestore collections the migration reads
+export const STUDY_ROOMS_COLLECTION = 'study-rooms';
+export const ROOMS_COLLECTION = 'rooms';
+
+// Export formats in order of preference; NDJSON is read line by line instead of parsed whole
+const COLLECTION_EXTENSIONS = ['.ndjson.gz', '.ndjson', '.json'];
+
+/**
+ * Path of an exported collection in the data directory, whichever format it was exported in
+ */
+export function collectionFilePath(collection: string, dataDir: string): string {
+  for (const extension of COLLECTION_EXTENSIONS) {
+    const filePath = path.join(dataDir, collection + extension);
+    if (fs.existsSync(filePath)) return filePath;
+  }
+  throw new Error(`No export of ${collection} found in ${dataDir} (looked for ${COLLECTION_EXTENSIONS.join(', ')})`);
+}
+
+/**
+ * Load an exported collection from the data directory, decoding tagged Firestore values
+ * (Timestamps to Dates, GeoPoints to coordinates, references to document paths)
+ */
+async function loadCollection<T>(collection: string, dataDir: string): Promise<T[]> {
+  const filePath = collectionFilePath(collection, dataDir);
+  if (filePath.endsWith('.json')) {
+    const documents: unknown[] = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return documents.map(document => decodeFirestoreValue(document) as T);
+  }
+
+  const documents: T[] = [];
+  for await (const document of readNdjson(filePath)) {
+    documents.push(decodeFirestoreValue(document) as T);
+  }
+  return documents;
+}
+
+/**
+ * Load the exported study-rooms collection
+ */
+export function loadStudyRooms(dataDir: string = DATA_DIR): Promise<StudyRoomData[]> {
+  return loadCollection<StudyRoomData>(STUDY_ROOMS_COLLECTION, dataDir);
+}
+
+/**
+ * Load the exported rooms (lecture hall) collection
+ */
+export function loadRooms(dataDir: string = DATA_DIR): Promise<RoomData[]> {
+  return loadCollection<RoomData>(ROOMS_COLLECTION, dataDir);
+}
+
+/**
+ * Source documents of one run: a full export, or the changes of an incremental export
+ */
+export interface SourceData {
+  studyRooms: StudyRoomData[];
+  rooms: RoomData[];
+  // IDs the changesets list as deleted; null for a full export, where anything absent is removed
+  deleted: { studyRooms: string[]; rooms: string[] } | null;
+}
+
+/**
+ * Load a collection's changeset (<collection>.changeset.json) written by an incremental export
+ */
+function loadChangeset<T>(collection: string, dataDir: string): { upserted: T[]; deleted: string[] } {
+  const filePath = path.join(dataDir, changesetFileName(collection));
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`No changeset for ${collection} found in ${dataDir} (run npm run export -- --incremental)`);
+  }
+
+  const changeset: ExportChangeset = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  return {
+    upserted: changeset.upserted.map(document => decodeFirestoreValue(document) as T),
+    deleted: changeset.deleted,
+  };
+}
+
+/**
+ * Load any other collection (one with a mapping config): its full export, or (changeset = true)
+ * the documents its changeset upserts
+ */
+export async function loadCollectionDocuments(
+  collection: string,
+  dataDir: string = DATA_DIR,
+  changeset: boolean = false
+): Promise<unknown[]> {
+  return changeset ? loadChangeset<unknown>(collection, dataDir).upserted : loadCollection<unknown>(collection, dataDir);
+}
+
+/**
+ * Files (relative to the data directory) a run reads, so they can be checked against the export manifest.
+ * collections are the mapped ones; study-rooms and rooms are always read.
+ */
+export function sourceFiles(
+  dataDir: string = DATA_DIR,
+  changeset: boolean = false,
+  collections: string[] = [STUDY_ROOMS_COLLECTION, ROOMS_COLLECTION]
+): string[] {
+  if (changeset) {
+    return collections.map(collection => changesetFileName(collection));
+  }
+  return collections.map(collection => path.relative(dataDir, collectionFilePath(collection, dataDir)));
+}
+
+/**
+ * Check a data directory against its export manifest (changeset = true: the changesets' manifest),
+ * requiring the files this run reads to be listed
+ */
+export function verifySourceData(
+  dataDir: string = DATA_DIR,
+  changeset: boolean = false,
+  collections?: string[]
+): Promise<ManifestVerification> {
+  return verifyExportManifest(
+    dataDir,
+    sourceFiles(dataDir, changeset, collections),
+    changeset ? CHANGESET_MANIFEST_FILE : MANIFEST_FILE
+  );
+}
+
+/**
+ * Load both collections, from their full exports or (changeset = true) from their changesets
+ */
+export async function loadSourceData(dataDir: string = DATA_DIR, changeset: boolean = false): Promise<SourceData> {
+  if (!changeset) {
+    return { studyRooms: await loadStudyRooms(dataDir), rooms: await loadRooms(dataDir), deleted: null };
+  }
+
+  const studyRooms = loadChangeset<StudyRoomData>(STUDY_ROOMS_COLLECTION, dataDir);
+  const rooms = loadChangeset<RoomData>(ROOMS_COLLECTION, dataDir);
+  return {
+    studyRooms: studyRooms.upserted,
+    rooms: rooms.upserted,
+    deleted: { studyRooms: studyRooms.deleted, rooms: rooms.deleted },
+  };
+}
@@ -0,0 +1,80 @@
+// Where a migration reads its source documents from: an export directory (the default), live Firestore,
+// or the Firestore emulator. Every source yields the same decoded documents, and loads them only once.
+
+import { decodeFirestoreValue } from '../services/firestoreTypes';
+import {
+  loadCollectionDocuments,
+  loadSourceData,
+  ROOMS_COLLECTION,
+  RoomData,
+  SourceData,
+  STUDY_ROOMS_COLLECTION,
+  StudyRoomData,
+} from './sourceData';
+
+export type SourceKind = 'export' | 'firestore' | 'emulator';
+
+export const SOURCE_KINDS: SourceKind[] = ['export', 'firestore', 'emulator'];
+
+// Where the emulator listens when neither --emulator-host nor FIRESTORE_EMULATOR_HOST says otherwise
+export const DEFAULT_EMULATOR_HOST = 'localhost:8080';
+
+export interface MigrationSource {
+  kind: SourceKind;
+  // Shown in logs and recorded in plans, e.g. the export directory or "firestore (emulator at localhost:8080)"
+  description: string;
+  // Export directory, whose manifest can be verified and recorded; null when reading Firestore directly
+  dataDir: string | null;
+  load(): Promise<SourceData>;
+  // Documents of another mapped collection (see migration/mappings.ts)
+  loadCollection(collection: string): Promise<unknown[]>;
+}
+
+/**
+ * Memoize a source's loader, so every step of a run shares one read of each collection
+ */
+function loadOnce(load: () => Promise<SourceData>): () => Promise<SourceData> {
+  let loaded: Promise<SourceData> | null = null;
+  return () => (loaded ??= load());
+}
+
+/**
+ * Source reading an export directory: the full export, or (changeset = true) its changesets
+ */
+export function createExportSource(dataDir: string, changeset: boolean = false): MigrationSource {
+  return {
+    kind: 'export',
+    description: changeset ? `${dataDir} (changesets)` : dataDir,
+    dataDir,
+    load: loadOnce(() => loadSourceData(dataDir, changeset)),
+    loadCollection: collection => loadCollectionDocuments(collection, dataDir, changeset),
+  };
+}
+
+/**
+ * Source reading both collections straight from Firestore. With an emulator host, the emulator is read
+ * instead; the host has to be set before Firebase Admin is loaded, which is why the import happens here.
+ */
+export function createFirestoreSource(emulatorHost?: string): MigrationSource {
+  // Documents come back encoded as they would be exported, so they are decoded the same way
+  const readCollection = async (collection: string): Promise<unknown[]> => {
+    if (emulatorHost) {
+      process.env.FIRESTORE_EMULATOR_HOST = emulatorHost;
+    }
+    await import('../services/client'); // Initialize Firebase Admin
+    const { getCollectionData } = await import('../services/fireStoreQueries');
+    return (await getCollectionData(collection)).map(document => decodeFirestoreValue(document));
+  };
+
+  return {
+    kind: emulatorHost ? 'emulator' : 'firestore',
+    description: emulatorHost ? `firestore (emulator at ${emulatorHost})` : 'firestore',
+    dataDir: null,
+    load: loadOnce(async () => ({
+      studyRooms: await readCollection(STUDY_ROOMS_COLLECTION) as StudyRoomData[],
+      rooms: await readCollection(ROOMS_COLLECTION) as RoomData[],
+      deleted: null,
+    })),
+    loadCollection: readCollection,
+  };
+}
@@ -0,0 +1,111 @@
+import { StorageObject } from '../services/storage';
+
+export interface OrphanReport {
+  bucket: string;
+  // Prefixes that were scanned
+  prefixes: string[];
+  generatedAt: string;
+  scanned: number;
+  referenced: number;
+  // Unreferenced but kept: modified within the minimum age, or uploaded by a run still in progress
+  kept: number;
+  orphans: StorageObject[];
+  orphanBytes: number;
+  // Orphaned bytes per university (the first two path segments, e.g. "universities/{universityId}")
+  bytesByUniversity: Record<string, number>;
+}
+
+/**
+ * Human-readable byte count, e.g. 1536 -> "1.5 KB"
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Where to look for orphans given the configured storage prefixes: the fixed part of each, up to its last
+ * "/" before the first placeholder ("universities/{universityId}" -> "universities/"). Objects left under
+ * university IDs from earlier runs are found too. Roots inside another root are dropped.
+ */
+export function storageScanRoots(storagePrefixes: string[]): string[] {
+  const roots = storagePrefixes.map(prefix => {
+    const placeholder = prefix.indexOf('{');
+    if (placeholder === -1) return `${prefix.replace(/\/+$/, '')}/`;
+    return prefix.slice(0, prefix.lastIndexOf('/', placeholder) + 1);
+  });
+  return [...new Set(roots)]
+    .filter(root => !roots.some(other => other !== root && root.startsWith(other)))
+    .sort();
+}
+
+/**
+ * Objects under the prefixes that no Photo or PhotoVariant references.
+ * Objects younger than minAgeMs, and paths in protectedPaths, are never orphans.
+ */
+export function findOrphanedObjects(
+  bucket: string,
+  prefixes: string[],
+  objects: StorageObject[],
+  referencedPaths: Set<string>,
+  protectedPaths: Set<string>,
+  minAgeMs: number,
+  now: Date = new Date()
+): OrphanReport {
+  const report: OrphanReport = {
+    bucket,
+    prefixes,
+    generatedAt: now.toISOString(),
+    scanned: objects.length,
+    referenced: 0,
+    kept: 0,
+    orphans: [],
+    orphanBytes: 0,
+    bytesByUniversity: {},
+  };
+
+  for (const object of objects) {
+    if (referencedPaths.has(object.path)) {
+      report.referenced++;
+      continue;
+    }
+
+    const age = object.updatedAt ? now.getTime() - object.updatedAt.getTime() : Infinity;
+    if (age < minAgeMs || protectedPaths.has(object.path)) {
+      report.kept++;
+      continue;
+    }
+
+    report.orphans.push(object);
+    report.orphanBytes += object.size;
+
+    const university = object.path.split('/').slice(0, 2).join('/');
+    report.bytesByUniversity[university] = (report.bytesByUniversity[university] || 0) + object.size;
+  }
+
+  return report;
+}
+
+/**
+ * Print the summary of an orphan scan
+ */
+export function printOrphanReport(report: OrphanReport): void {
+  console.log('\n' + '='.repeat(60));
+  console.log(`🗑️  ORPHANED STORAGE OBJECTS: ${report.prefixes.map(prefix => `${report.bucket}/${prefix}`).join(', ')}`);
+  console.log('='.repeat(60));
+  console.log(`Scanned: ${report.scanned}`);
+  console.log(`Referenced by a photo: ${report.referenced}`);
+  console.log(`Unreferenced but kept (recent or in-flight): ${report.kept}`);
+  console.log(`Orphaned: ${report.orphans.length} (${formatBytes(report.orphanBytes)})`);
+  console.log('='.repeat(60));
+
+  for (const [university, bytes] of Object.entries(report.bytesByUniversity)) {
+    console.log(`  ${university}: ${formatBytes(bytes)}`);
+  }
+}
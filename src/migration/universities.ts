@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ROOT_DIR, UNIVERSITIES_CONFIG_DIR } from './config';
+
+/**
+ * Per-university migration settings, loaded from config/universities/{slug}.json
+ */
+export interface UniversityConfig {
+  name: string;
+  slug: string;
+  // Directory holding study-rooms.json and rooms.json, relative to the repo root
+  dataDir: string;
+  // Prefix of every uploaded photo; {universityId} and {slug} are substituted
+  storagePrefix: string;
+  // Raw Firestore building name -> canonical building name
+  buildingAliases: Record<string, string>;
+  // Minimum confidence for a fuzzy building-name match (default 0.8)
+  buildingMatchThreshold?: number;
+}
+
+/**
+ * Check the shape of a parsed config file, throwing a message that names the file
+ */
+function parseUniversityConfig(raw: unknown, filePath: string): UniversityConfig {
+  const config = raw as Partial<UniversityConfig>;
+  const problems: string[] = [];
+
+  for (const field of ['name', 'slug', 'dataDir', 'storagePrefix'] as const) {
+    if (typeof config?.[field] !== 'string' || config[field] === '') {
+      problems.push(`"${field}" must be a non-empty string`);
+    }
+  }
+
+  const aliases = config?.buildingAliases ?? {};
+  if (typeof aliases !== 'object' || Array.isArray(aliases) || Object.values(aliases).some(v => typeof v !== 'string')) {
+    problems.push('"buildingAliases" must map strings to strings');
+  }
+
+  const threshold = config?.buildingMatchThreshold;
+  if (threshold !== undefined && (typeof threshold !== 'number' || threshold < 0 || threshold > 1)) {
+    problems.push('"buildingMatchThreshold" must be a number between 0 and 1');
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid university config ${filePath}: ${problems.join('; ')}`);
+  }
+
+  return { ...(config as UniversityConfig), buildingAliases: aliases };
+}
+
+/**
+ * Load university configs. With no slugs every config in the directory is returned.
+ */
+export function loadUniversityConfigs(
+  slugs: string[] = [],
+  configDir: string = UNIVERSITIES_CONFIG_DIR
+): UniversityConfig[] {
+  if (!fs.existsSync(configDir)) {
+    throw new Error(`University config directory not found: ${configDir}`);
+  }
+
+  const configs = fs
+    .readdirSync(configDir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => {
+      const filePath = path.join(configDir, file);
+      return parseUniversityConfig(JSON.parse(fs.readFileSync(filePath, 'utf-8')), filePath);
+    });
+
+  if (slugs.length === 0) return configs;
+
+  return slugs.map(slug => {
+    const config = configs.find(c => c.slug === slug);
+    if (!config) {
+      throw new Error(`No university config with slug "${slug}" (available: ${configs.map(c => c.slug).join(', ')})`);
+    }
+    return config;
+  });
+}
+
+/**
+ * Absolute path of a university's source data directory
+ */
+export function resolveDataDir(config: UniversityConfig): string {
+  return path.resolve(ROOT_DIR, config.dataDir);
+}
+
+/**
+ * Storage prefix with its placeholders filled in, without a trailing slash
+ */
+export function resolveStoragePrefix(config: UniversityConfig, universityId: string): string {
+  return config.storagePrefix
+    .replace(/\{universityId\}/g, universityId)
+    .replace(/\{slug\}/g, config.slug)
+    .replace(/\/+$/, '');
+}
@@ -0,0 +1,206 @@
+import { RoomData, StudyRoomData } from './sourceData';
+
+type FieldType = 'string' | 'number' | 'boolean' | 'string[]' | 'object';
+
+interface FieldSchema {
+  type: FieldType;
+  required: boolean;
+  // Nested schema for 'object' fields
+  fields?: CollectionSchema;
+}
+
+export type CollectionSchema = Record<string, FieldSchema>;
+
+// Runtime schema for StudyRoomData
+export const studyRoomSchema: CollectionSchema = {
+  id: { type: 'string', required: true },
+  name: { type: 'string', required: true },
+  building: { type: 'string', required: true },
+  spaceType: { type: 'string', required: false },
+  location: { type: 'string', required: true },
+  imageURL: { type: 'string[]', required: false },
+  features: { type: 'string[]', required: true },
+  noiseLevel: { type: 'string', required: true },
+  capacity: { type: 'number', required: false },
+  description: { type: 'string', required: true },
+};
+
+// Runtime schema for RoomData
+export const roomSchema: CollectionSchema = {
+  id: { type: 'string', required: true },
+  building: { type: 'string', required: true },
+  photos: { type: 'string[]', required: false },
+  room: { type: 'string', required: true },
+  information: {
+    type: 'object',
+    required: true,
+    fields: {
+      av_inputs: { type: 'string', required: true },
+      pc: { type: 'string', required: true },
+      whiteboard: { type: 'string', required: true },
+      projector: { type: 'string', required: true },
+    },
+  },
+};
+
+export interface DocumentValidation {
+  collection: string;
+  id: string;
+  valid: boolean;
+  missing: string[];
+  extra: string[];
+  wrongType: { field: string; expected: FieldType; actual: string }[];
+}
+
+export interface ValidationReport {
+  collection: string;
+  total: number;
+  invalid: number;
+  documents: DocumentValidation[];
+}
+
+/**
+ * Describe a runtime value in the same vocabulary as FieldType
+ */
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) {
+    return value.every(item => typeof item === 'string') ? 'string[]' : 'array';
+  }
+  return typeof value;
+}
+
+/**
+ * Check one object against a schema, collecting issues under a dotted field prefix
+ */
+function checkFields(
+  value: Record<string, unknown>,
+  schema: CollectionSchema,
+  result: DocumentValidation,
+  prefix: string = ''
+): void {
+  for (const [field, fieldSchema] of Object.entries(schema)) {
+    const fieldPath = prefix + field;
+    const fieldValue = value[field];
+
+    if (fieldValue === undefined || fieldValue === null) {
+      if (fieldSchema.required) result.missing.push(fieldPath);
+      continue;
+    }
+
+    const actual = describeType(fieldValue);
+    if (actual !== fieldSchema.type) {
+      result.wrongType.push({ field: fieldPath, expected: fieldSchema.type, actual });
+      continue;
+    }
+
+    if (fieldSchema.type === 'object' && fieldSchema.fields) {
+      checkFields(fieldValue as Record<string, unknown>, fieldSchema.fields, result, `${fieldPath}.`);
+    }
+  }
+
+  for (const field of Object.keys(value)) {
+    if (!(field in schema)) result.extra.push(prefix + field);
+  }
+}
+
+/**
+ * Validate a single document. Extra fields are reported but don't make it invalid.
+ */
+export function validateDocument(
+  collection: string,
+  doc: unknown,
+  schema: CollectionSchema
+): DocumentValidation {
+  const record = (doc && typeof doc === 'object' && !Array.isArray(doc) ? doc : {}) as Record<string, unknown>;
+
+  const result: DocumentValidation = {
+    collection,
+    id: typeof record.id === 'string' ? record.id : '<unknown>',
+    valid: true,
+    missing: [],
+    extra: [],
+    wrongType: [],
+  };
+
+  if (record !== doc) {
+    result.wrongType.push({ field: '<document>', expected: 'object', actual: describeType(doc) });
+  } else {
+    checkFields(record, schema, result);
+  }
+
+  result.valid = result.missing.length === 0 && result.wrongType.length === 0;
+  return result;
+}
+
+/**
+ * Validate every document of a collection, returning the report and the documents that passed
+ */
+export function validateCollection<T>(
+  collection: string,
+  docs: unknown[],
+  schema: CollectionSchema
+): { report: ValidationReport; valid: T[] } {
+  const documents: DocumentValidation[] = [];
+  const valid: T[] = [];
+
+  for (const doc of docs) {
+    const result = validateDocument(collection, doc, schema);
+    if (result.valid) valid.push(doc as T);
+
+    // Only keep documents with something to say about them
+    if (!result.valid || result.extra.length > 0) documents.push(result);
+  }
+
+  return {
+    report: {
+      collection,
+      total: docs.length,
+      invalid: docs.length - valid.length,
+      documents,
+    },
+    valid,
+  };
+}
+
+/**
+ * Validate both exported collections
+ */
+export function validateSourceData(studyRooms: unknown[], rooms: unknown[]) {
+  const studyRoomResult = validateCollection<StudyRoomData>('study-rooms', studyRooms, studyRoomSchema);
+  const roomResult = validateCollection<RoomData>('rooms', rooms, roomSchema);
+
+  return {
+    reports: [studyRoomResult.report, roomResult.report],
+    studyRooms: studyRoomResult.valid,
+    rooms: roomResult.valid,
+  };
+}
+
+/**
+ * One-line description of a document's issues, e.g. "missing information, features is string, expected string[]"
+ */
+export function describeIssues(doc: DocumentValidation, includeExtra: boolean = false): string {
+  const issues = [
+    ...doc.missing.map(field => `missing ${field}`),
+    ...doc.wrongType.map(issue => `${issue.field} is ${issue.actual}, expected ${issue.expected}`),
+    ...(includeExtra ? doc.extra.map(field => `extra ${field}`) : []),
+  ];
+  return issues.join(', ');
+}
+
+/**
+ * Print a per-document summary of validation issues
+ */
+export function printValidationReports(reports: ValidationReport[]): void {
+  console.log('\n🔎 Validating Source Data...');
+
+  for (const report of reports) {
+    const status = report.invalid === 0 ? '✅' : '⚠️ ';
+    console.log(`${status} ${report.collection}: ${report.total - report.invalid}/${report.total} valid`);
+
+    for (const doc of report.documents) {
+      console.log(`  ${doc.valid ? '·' : '❌'} ${doc.id}: ${describeIssues(doc, true)}`);
+    }
+  }
+}
@@ -0,0 +1,187 @@
+// Canonical vocabularies: the Prisma enums of study spot features, noise levels and space types, with the
+// spellings found in Firestore mapped onto them by config/vocabularies.json. Every enum value matches its own
+// name, so "Power Outlets" is POWER_OUTLETS; synonyms add the rest ("wi-fi" -> WIFI).
+
+import * as fs from 'fs';
+import { $Enums } from '../../generated/prisma/client';
+import { VOCABULARIES_CONFIG } from './config';
+
+// Enum name -> value name -> stored value, from the generated client
+const ENUMS = $Enums as unknown as Record<string, Record<string, string>>;
+
+// Enum name -> value name -> synonyms
+export type VocabularyConfig = Record<string, Record<string, string[]>>;
+
+export interface NormalizedTerm {
+  value: string;
+  canonical: string;
+  occurrences: number;
+}
+
+export interface UnmappedTerm {
+  value: string;
+  occurrences: number;
+  // Documents the value was found in
+  sourceIds: string[];
+}
+
+export interface NormalizationReport {
+  vocabulary: string;
+  // Values that were rewritten to a canonical one
+  normalized: NormalizedTerm[];
+  // Values no canonical one matched; they were dropped from lists, or failed their document
+  unmapped: UnmappedTerm[];
+}
+
+/**
+ * Comparison key for a term: case, accents, punctuation and whitespace are ignored ("Wi-Fi " -> "wi fi")
+ */
+export function normalizeTerm(term: string): string {
+  return term
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Check the shape of the parsed config against the generated enums, throwing a message that names the file
+ */
+function parseVocabularyConfig(raw: unknown, filePath: string): VocabularyConfig {
+  const problems: string[] = [];
+  const config = (raw && typeof raw === 'object' && !Array.isArray(raw) ? raw : {}) as VocabularyConfig;
+  if (config !== raw) {
+    problems.push('must map enum names to their synonyms');
+  }
+
+  for (const [vocabulary, values] of Object.entries(config)) {
+    const members = ENUMS[vocabulary];
+    if (!members) {
+      problems.push(`"${vocabulary}" is not a Prisma enum (expected one of ${Object.keys(ENUMS).join(', ')})`);
+      continue;
+    }
+    for (const [member, synonyms] of Object.entries(values || {})) {
+      if (!(member in members)) {
+        problems.push(`"${vocabulary}.${member}" is not a value of ${vocabulary}`);
+      }
+      if (!Array.isArray(synonyms) || !synonyms.every(synonym => typeof synonym === 'string')) {
+        problems.push(`"${vocabulary}.${member}" must list synonyms`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid vocabulary config ${filePath}: ${problems.join('; ')}`);
+  }
+  return config;
+}
+
+/**
+ * Load the synonyms of every vocabulary
+ */
+export function loadVocabularies(filePath: string = VOCABULARIES_CONFIG): VocabularyConfig {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Vocabulary config not found: ${filePath}`);
+  }
+  return parseVocabularyConfig(JSON.parse(fs.readFileSync(filePath, 'utf-8')), filePath);
+}
+
+/**
+ * Whether a vocabulary exists (is a Prisma enum)
+ */
+export function isVocabulary(name: string): boolean {
+  return name in ENUMS;
+}
+
+/**
+ * Maps source terms to canonical values and remembers every term it saw, for the normalization report
+ */
+export class VocabularyNormalizer {
+  // Vocabulary -> normalized term -> stored value
+  private readonly terms = new Map<string, Map<string, string>>();
+  // Vocabulary -> raw term -> what became of it
+  private readonly seen = new Map<string, Map<string, { canonical: string | null; occurrences: number; sourceIds: string[] }>>();
+
+  constructor(config: VocabularyConfig = {}) {
+    for (const [vocabulary, members] of Object.entries(ENUMS)) {
+      const terms = new Map<string, string>();
+      for (const [member, stored] of Object.entries(members)) {
+        for (const term of [member, stored, ...(config[vocabulary]?.[member] || [])]) {
+          terms.set(normalizeTerm(term), stored);
+        }
+      }
+      this.terms.set(vocabulary, terms);
+    }
+  }
+
+  /**
+   * Canonical value of a term, or null when none matches
+   */
+  normalize(vocabulary: string, term: string, sourceId: string): string | null {
+    const terms = this.terms.get(vocabulary);
+    if (!terms) {
+      throw new Error(`Unknown vocabulary ${vocabulary}`);
+    }
+    const canonical = terms.get(normalizeTerm(term)) ?? null;
+
+    if (!this.seen.has(vocabulary)) {
+      this.seen.set(vocabulary, new Map());
+    }
+    const seen = this.seen.get(vocabulary)!;
+    const entry = seen.get(term) ?? { canonical, occurrences: 0, sourceIds: [] };
+    entry.occurrences++;
+    if (!entry.sourceIds.includes(sourceId)) {
+      entry.sourceIds.push(sourceId);
+    }
+    seen.set(term, entry);
+
+    return canonical;
+  }
+
+  /**
+   * What became of every term seen, per vocabulary; terms that already were canonical are left out
+   */
+  report(): NormalizationReport[] {
+    return [...this.seen].map(([vocabulary, seen]) => {
+      const entries = [...seen].sort(([a], [b]) => a.localeCompare(b));
+      return {
+        vocabulary,
+        normalized: entries
+          .filter(([value, entry]) => entry.canonical !== null && entry.canonical !== value)
+          .map(([value, entry]) => ({ value, canonical: entry.canonical!, occurrences: entry.occurrences })),
+        unmapped: entries
+          .filter(([, entry]) => entry.canonical === null)
+          .map(([value, entry]) => ({ value, occurrences: entry.occurrences, sourceIds: entry.sourceIds })),
+      };
+    });
+  }
+}
+
+/**
+ * Number of distinct terms no canonical value matched
+ */
+export function countUnmapped(reports: NormalizationReport[]): number {
+  return reports.reduce((sum, report) => sum + report.unmapped.length, 0);
+}
+
+/**
+ * Print the terms that were rewritten and the ones that couldn't be mapped
+ */
+export function printNormalizationReport(reports: NormalizationReport[]): void {
+  for (const report of reports) {
+    if (report.normalized.length === 0 && report.unmapped.length === 0) continue;
+
+    console.log(`\n🔤 ${report.vocabulary}:`);
+    report.normalized.forEach(term => console.log(`  "${term.value}" → "${term.canonical}" (${term.occurrences}x)`));
+    report.unmapped.forEach(term =>
+      console.log(`  ❌ "${term.value}" unmapped (${term.occurrences}x, e.g. ${term.sourceIds.slice(0, 3).join(', ')})`)
+    );
+  }
+
+  const unmapped = countUnmapped(reports);
+  if (unmapped > 0) {
+    console.log(`\n⚠️  ${unmapped} values couldn't be mapped (add them to config/vocabularies.json)`);
+  }
+}
@@ -0,0 +1,132 @@
+import { PrismaClient } from '../generated/prisma/client';
+import { PrismaPg } from '@prisma/adapter-pg';
+import { Pool } from 'pg';
+import * as dotenv from 'dotenv';
+import {
+  formatReconciliationReport,
+  hasDiscrepancies,
+  LectureHallRow,
+  reconcile,
+  StudySpotRow,
+} from './migration/reconciliation';
+import { loadCollectionMappings } from './migration/mappings';
+import { saveReport, saveTextReport } from './migration/reports';
+import { loadSourceData } from './migration/sourceData';
+import { loadUniversityConfigs, resolveDataDir, UniversityConfig } from './migration/universities';
+import { validateSourceData } from './migration/validation';
+import { loadVocabularies } from './migration/vocabularies';
+
+// Load environment variables
+dotenv.config();
+
+// Create PostgreSQL pool and adapter
+const pool = new Pool({ connectionString: process.env.DIRECT_URL });
+const adapter = new PrismaPg(pool);
+
+const prisma = new PrismaClient({
+  adapter,
+  log: ['warn', 'error'],
+});
+
+// Photos that still exist in the source; flagged photos no longer count
+const photoCount = { select: { photos: { where: { sourceRemovedAt: null } } } };
+
+/**
+ * Migrated StudySpot and LectureHall rows of a university (rows without a sourceId weren't migrated)
+ */
+async function loadMigratedRows(slug: string): Promise<{ studySpots: StudySpotRow[]; lectureHalls: LectureHallRow[] }> {
+  const where = { sourceId: { not: null }, sourceUniversity: { slug } };
+  
+  const studySpots = await prisma.studySpot.findMany({
+    where,
+    select: {
+      id: true,
+      sourceId: true,
+      sourceRemovedAt: true,
+      name: true,
+      location: true,
+      features: true,
+      noiseLevel: true,
+      _count: photoCount,
+    },
+  });
+  
+  const lectureHalls = await prisma.lectureHall.findMany({
+    where,
+    select: {
+      id: true,
+      sourceId: true,
+      sourceRemovedAt: true,
+      room: true,
+      hasAvInputs: true,
+      hasPc: true,
+      hasWhiteboard: true,
+      hasProjector: true,
+      _count: photoCount,
+    },
+  });
+  
+  return {
+    studySpots: studySpots.map(({ _count, ...spot }) => ({ ...spot, sourceId: spot.sourceId!, photoCount: _count.photos })),
+    lectureHalls: lectureHalls.map(({ _count, ...hall }) => ({ ...hall, sourceId: hall.sourceId!, photoCount: _count.photos })),
+  };
+}
+
+/**
+ * Reconcile one university and write its JSON and text reports; returns whether everything matched
+ */
+async function reconcileUniversity(config: UniversityConfig): Promise<boolean> {
+  console.log(`\n🎓 ${config.name} (${config.slug})`);
+  
+  const source = await loadSourceData(resolveDataDir(config));
+  const { reports, studyRooms, rooms } = validateSourceData(source.studyRooms, source.rooms);
+  const invalid = reports.flatMap(report =>
+    report.documents
+      .filter(doc => !doc.valid)
+      .map(doc => ({ model: report.collection === 'rooms' ? 'LectureHall' as const : 'StudySpot' as const, sourceId: doc.id }))
+  );
+  
+  const mappings = loadCollectionMappings();
+  const report = reconcile(
+    config.slug,
+    mappings,
+    loadVocabularies(),
+    { studyRooms, rooms, invalid },
+    await loadMigratedRows(config.slug)
+  );
+  const lines = formatReconciliationReport(report);
+  lines.forEach(line => console.log(line));
+  
+  const jsonPath = saveReport(`reconciliation-${config.slug}`, report);
+  const textPath = saveTextReport(`reconciliation-${config.slug}`, lines);
+  console.log(`\n📄 Reports written to ${jsonPath} and ${textPath}`);
+  
+  return !hasDiscrepancies(report);
+}
+
+/**
+ * Compare what the migration wrote to Postgres with the exported source data of the given
+ * universities (empty: all). Returns false if any has missing, extra or mismatched records.
+ */
+export async function runReconciliation(universities: string[]): Promise<boolean> {
+  console.log('🧮 Reconciling Firestore export with Postgres...');
+  
+  try {
+    const mismatched: string[] = [];
+    for (const config of loadUniversityConfigs(universities)) {
+      if (!(await reconcileUniversity(config))) {
+        mismatched.push(config.slug);
+      }
+    }
+    
+    if (mismatched.length > 0) {
+      console.log(`\n❌ Discrepancies found for: ${mismatched.join(', ')}`);
+      return false;
+    }
+    console.log('\n✅ Reconciliation found no discrepancies');
+    return true;
+  } finally {
+    await prisma.$disconnect();
+    await pool.end();
+  }
+}
@@ -0,0 +1,184 @@
+import { PrismaClient } from '../generated/prisma/client';
+import { PrismaPg } from '@prisma/adapter-pg';
+import { Pool } from 'pg';
+import * as dotenv from 'dotenv';
+import { describeRun, RunStatus } from './migration/ledger';
+import { loadCollectionMappings, modelDelegate } from './migration/mappings';
+import { variantPaths } from './migration/photos';
+import { createStorageBackend } from './services/storage';
+
+// Load environment variables
+dotenv.config();
+
+// Create PostgreSQL pool and adapter
+const pool = new Pool({ connectionString: process.env.DIRECT_URL });
+const adapter = new PrismaPg(pool);
+
+const prisma = new PrismaClient({
+  adapter,
+  log: ['warn', 'error'],
+});
+
+export interface RollbackOptions {
+  // Run to roll back; without it, recent runs are listed
+  runId?: string;
+  // Only list recent runs (can't be combined with runId)
+  list: boolean;
+  // Only report what would be deleted
+  dryRun: boolean;
+}
+
+/**
+ * Print the most recent migration runs
+ */
+async function listRuns(): Promise<void> {
+  const runs = await prisma.migrationRun.findMany({ orderBy: { startedAt: 'desc' }, take: 20 });
+  console.log('📒 Recent migration runs:');
+  runs.forEach(run => console.log(`  ${describeRun(run)}`));
+}
+
+/**
+ * Rows created by other runs (or outside the migration) that still reference rows this run created.
+ * They would break the foreign keys, so the rollback refuses while any exist.
+ */
+async function findDependents(runId: string): Promise<string[]> {
+  const notThisRun = { OR: [{ migrationRunId: null }, { migrationRunId: { not: runId } }] };
+  const createdByRun = { migrationRunId: runId };
+  
+  const counts = {
+    photos: await prisma.photo.count({
+      where: {
+        AND: [
+          notThisRun,
+          {
+            OR: [
+              { university: createdByRun },
+              { building: createdByRun },
+              { studySpot: createdByRun },
+              { lectureHall: createdByRun },
+            ],
+          },
+        ],
+      },
+    }),
+    studySpots: await prisma.studySpot.count({
+      where: { AND: [notThisRun, { OR: [{ building: createdByRun }, { sourceUniversity: createdByRun }] }] },
+    }),
+    lectureHalls: await prisma.lectureHall.count({
+      where: { AND: [notThisRun, { OR: [{ building: createdByRun }, { sourceUniversity: createdByRun }] }] },
+    }),
+    buildings: await prisma.building.count({ where: { ...notThisRun, university: createdByRun } }),
+    users: await prisma.user.count({ where: { university: createdByRun } }),
+  };
+  
+  return Object.entries(counts)
+    .filter(([, count]) => count > 0)
+    .map(([model, count]) => `${count} ${model}`);
+}
+
+/**
+ * Delete exactly what a run created: its Prisma rows in foreign-key order, then the storage
+ * objects it uploaded. Rows it only updated, and objects it overwrote, are left alone.
+ */
+async function rollback(runId: string, dryRun: boolean): Promise<void> {
+  const run = await prisma.migrationRun.findUnique({ where: { id: runId } });
+  if (!run) {
+    throw new Error(`No migration run ${runId} (use --list to see recent runs)`);
+  }
+  
+  console.log(`⏪ Rolling back ${describeRun(run)}`);
+  if (run.status === 'rolled_back') {
+    throw new Error(`Run ${runId} was already rolled back at ${run.rolledBackAt?.toISOString()}`);
+  }
+  if (run.status === 'running') {
+    console.log('⚠️  The run is still marked as running; make sure it isn\'t (it may have crashed)');
+  }
+  
+  const where = { migrationRunId: runId };
+  const photos = await prisma.photo.findMany({ where, select: { storagePath: true } });
+  const objects = await prisma.migrationRunObject.findMany({ where: { runId } });
+  // Models the collections step writes, from the other mapping configs
+  const mappedModels = [...new Set(loadCollectionMappings().additional.map(mapping => mapping.model))];
+  const counts: Record<string, number> = {
+    photos: photos.length,
+    lectureHalls: await prisma.lectureHall.count({ where }),
+    studySpots: await prisma.studySpot.count({ where }),
+    buildings: await prisma.building.count({ where }),
+    universities: await prisma.university.count({ where }),
+    storageObjects: objects.length,
+  };
+  for (const model of mappedModels) {
+    counts[model] = await modelDelegate(prisma, model).count({ where });
+  }
+  
+  console.log('\nCreated by this run:');
+  Object.entries(counts).forEach(([model, count]) => console.log(`  ${model}: ${count}`));
+  
+  const dependents = await findDependents(runId);
+  if (dependents.length > 0) {
+    throw new Error(
+      `Rows created by other runs still reference this run's rows (${dependents.join(', ')}); roll those runs back first`
+    );
+  }
+  
+  if (dryRun) {
+    console.log('\n🔍 Dry run: nothing was deleted');
+    return;
+  }
+  
+  // Children before parents; photo variants cascade with their photos
+  await prisma.$transaction([
+    prisma.photo.deleteMany({ where }),
+    ...mappedModels.map(model => modelDelegate(prisma, model).deleteMany({ where })),
+    prisma.lectureHall.deleteMany({ where }),
+    prisma.studySpot.deleteMany({ where }),
+    prisma.building.deleteMany({ where }),
+    prisma.university.deleteMany({ where }),
+  ]);
+  console.log('✅ Deleted rows');
+  
+  // Objects are grouped by bucket, in case the run uploaded to a different STORAGE_BUCKET
+  const buckets = new Map<string, string[]>();
+  for (const object of objects) {
+    buckets.set(object.bucket, [...(buckets.get(object.bucket) || []), object.storagePath]);
+  }
+  for (const [bucket, paths] of buckets) {
+    await createStorageBackend(bucket).delete(paths);
+    console.log(`✅ Deleted ${paths.length} objects from '${bucket}'`);
+  }
+  
+  // Variants of photos this run created that never made it into the ledger (recording the upload failed)
+  const recorded = new Set(objects.map(object => object.storagePath));
+  const unrecorded = photos
+    .flatMap(photo => variantPaths(photo.storagePath))
+    .filter(path => !recorded.has(path));
+  if (unrecorded.length > 0) {
+    console.log(`⚠️  ${unrecorded.length} variant paths of deleted photos weren't in the ledger and were left in storage`);
+  }
+  
+  await prisma.migrationRun.update({
+    where: { id: runId },
+    data: { status: 'rolled_back' as RunStatus, rolledBackAt: new Date() },
+  });
+  console.log(`\n✅ Run ${runId} rolled back`);
+}
+
+/**
+ * Roll back a migration run, or list recent runs when no run is given
+ */
+export async function runRollback(options: RollbackOptions): Promise<void> {
+  try {
+    if (options.list || !options.runId) {
+      await listRuns();
+      if (!options.list) {
+        console.log('\nPass --run=<id> to roll one back');
+      }
+      return;
+    }
+    await rollback(options.runId, options.dryRun);
+  } finally {
+    // The adapter doesn't end a pool it was given
+    await prisma.$disconnect();
+    await pool.end();
+  }
+}
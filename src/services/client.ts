@@ -1,7 +1,153 @@
-var admin = require("firebase-admin");
+// Firebase Admin initialization. Importing this module initializes the default app for the selected project.
+//
+// FIREBASE_PROJECT selects a named project; without it the unnamed one is used. The unnamed project is
+// configured with FIREBASE_CREDENTIALS, FIREBASE_CREDENTIALS_JSON and FIREBASE_PROJECT_ID, a project named
+// "staging" with FIREBASE_STAGING_CREDENTIALS, FIREBASE_STAGING_CREDENTIALS_JSON and FIREBASE_STAGING_PROJECT_ID.
+//
+// Credentials, first one found:
+//   <prefix>_CREDENTIALS_JSON       the service account key itself
+//   <prefix>_CREDENTIALS            path to a service account key file, or "application-default"
+//   GOOGLE_APPLICATION_CREDENTIALS  application-default credentials
+//   serviceAccountKey.json          in the repo root (unnamed project only)
+// With FIRESTORE_EMULATOR_HOST set no credentials are needed, and the project ID defaults to demo-<project>.
 
-var serviceAccount = require("../../serviceAccountKey.json");
+import * as admin from "firebase-admin";
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import * as path from "path";
 
-admin.initializeApp({
-  credential: admin.credential.cert(serviceAccount)
-});
+dotenv.config();
+
+// Where the key file has always been kept
+const DEFAULT_KEY_FILE = path.resolve(__dirname, "../../serviceAccountKey.json");
+
+// <prefix>_CREDENTIALS value that selects application-default credentials
+const APPLICATION_DEFAULT = "application-default";
+
+type ServiceAccountKey = admin.ServiceAccount & { project_id?: string };
+
+export interface FirebaseSettings {
+  // Project selected with FIREBASE_PROJECT, or null for the unnamed one
+  name: string | null;
+  projectId?: string;
+  // Undefined when talking to the emulator
+  credential?: admin.credential.Credential;
+  // Where the credentials came from, e.g. "FIREBASE_CREDENTIALS (./keys/prod.json)"
+  credentialSource: string;
+  emulatorHost: string | null;
+}
+
+/**
+ * Firebase is misconfigured (no credentials, a missing key file, invalid JSON)
+ */
+export class FirebaseConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FirebaseConfigError";
+  }
+}
+
+/**
+ * Prefix of a project's environment variables: FIREBASE for the unnamed project, FIREBASE_<NAME> otherwise
+ */
+export function firebaseEnvPrefix(name: string | null): string {
+  return name ? `FIREBASE_${name.toUpperCase().replace(/[^A-Z0-9]+/g, "_")}` : "FIREBASE";
+}
+
+function parseServiceAccount(json: string, source: string): ServiceAccountKey {
+  try {
+    return JSON.parse(json);
+  } catch (error) {
+    throw new FirebaseConfigError(
+      `${source} is not valid service account JSON: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+function readKeyFile(filePath: string, source: string): ServiceAccountKey {
+  if (!fs.existsSync(filePath)) {
+    throw new FirebaseConfigError(`${source} points at ${filePath}, which doesn't exist`);
+  }
+  return parseServiceAccount(fs.readFileSync(filePath, "utf-8"), `${source} (${filePath})`);
+}
+
+/**
+ * Work out how to connect to a project from the environment, without initializing anything
+ */
+export function resolveFirebaseSettings(
+  name: string | null = process.env.FIREBASE_PROJECT || null,
+  env: NodeJS.ProcessEnv = process.env
+): FirebaseSettings {
+  const prefix = firebaseEnvPrefix(name);
+  const projectId = env[`${prefix}_PROJECT_ID`];
+  const emulatorHost = env.FIRESTORE_EMULATOR_HOST || null;
+
+  if (emulatorHost) {
+    return {
+      name,
+      projectId: projectId || env.GCLOUD_PROJECT || `demo-${name || "migration"}`,
+      credentialSource: `emulator at ${emulatorHost}`,
+      emulatorHost,
+    };
+  }
+
+  const fromKey = (key: ServiceAccountKey, source: string): FirebaseSettings => ({
+    name,
+    projectId: projectId || key.project_id,
+    credential: admin.credential.cert(key),
+    credentialSource: source,
+    emulatorHost,
+  });
+  const fromApplicationDefault = (source: string): FirebaseSettings => ({
+    name,
+    projectId: projectId || env.GOOGLE_CLOUD_PROJECT || env.GCLOUD_PROJECT,
+    credential: admin.credential.applicationDefault(),
+    credentialSource: source,
+    emulatorHost,
+  });
+
+  const inline = env[`${prefix}_CREDENTIALS_JSON`];
+  if (inline) {
+    return fromKey(parseServiceAccount(inline, `${prefix}_CREDENTIALS_JSON`), `${prefix}_CREDENTIALS_JSON`);
+  }
+
+  const keyPath = env[`${prefix}_CREDENTIALS`];
+  if (keyPath === APPLICATION_DEFAULT) {
+    return fromApplicationDefault(`${prefix}_CREDENTIALS (${APPLICATION_DEFAULT})`);
+  }
+  if (keyPath) {
+    const filePath = path.resolve(keyPath);
+    return fromKey(readKeyFile(filePath, `${prefix}_CREDENTIALS`), `${prefix}_CREDENTIALS (${filePath})`);
+  }
+
+  if (env.GOOGLE_APPLICATION_CREDENTIALS) {
+    return fromApplicationDefault(`GOOGLE_APPLICATION_CREDENTIALS (${env.GOOGLE_APPLICATION_CREDENTIALS})`);
+  }
+  if (!name && fs.existsSync(DEFAULT_KEY_FILE)) {
+    return fromKey(readKeyFile(DEFAULT_KEY_FILE, "serviceAccountKey.json"), DEFAULT_KEY_FILE);
+  }
+
+  throw new FirebaseConfigError(
+    `No credentials for ${name ? `Firebase project "${name}"` : "Firebase"}. Set ${prefix}_CREDENTIALS to a ` +
+      `service account key file (or "${APPLICATION_DEFAULT}"), ${prefix}_CREDENTIALS_JSON to the key itself, ` +
+      `or FIRESTORE_EMULATOR_HOST to use the emulator` +
+      (name ? "." : ", or put serviceAccountKey.json in the repo root.")
+  );
+}
+
+/**
+ * Initialize the default Firebase app for a project (once; later calls return the same app)
+ */
+export function initializeFirebase(name: string | null = process.env.FIREBASE_PROJECT || null): admin.app.App {
+  if (admin.apps.length > 0) {
+    return admin.app();
+  }
+
+  const settings = resolveFirebaseSettings(name);
+  return admin.initializeApp({
+    ...(settings.credential && { credential: settings.credential }),
+    ...(settings.projectId && { projectId: settings.projectId }),
+  });
+}
+
+initializeFirebase();
@@ -0,0 +1,198 @@
+// Manifest written by every export run, and verification of a data directory against it.
+// Kept free of Firestore imports so the migrator can verify exports without Firebase Admin.
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { EXPORT_STATE_FILE } from "./exportState";
+
+export const MANIFEST_FILE = "manifest.json";
+// Written by incremental exports, so a changeset never replaces the manifest of the full export
+export const CHANGESET_MANIFEST_FILE = "changeset-manifest.json";
+
+// json / ndjson: one file per collection; changeset: incremental export;
+// nested / flat: recursive export with subcollections
+export type ExportFormat = "json" | "ndjson" | "changeset" | "nested" | "flat";
+
+export interface ManifestCollection {
+  path: string;
+  // Depth below the top-level collection (recursive exports only)
+  depth?: number;
+  documents: number;
+  // IDs listed as deleted (changesets only)
+  deleted?: number;
+  // Output file relative to the export directory, when the collection has its own file
+  file?: string;
+}
+
+export interface ManifestFile {
+  // Relative to the export directory
+  path: string;
+  bytes: number;
+  sha256: string;
+}
+
+/**
+ * What an export run wrote: where from, when, how many documents per collection,
+ * and a checksum of every file so later edits can be detected
+ */
+export interface ExportManifest {
+  projectId: string | null;
+  generatedAt: string;
+  format: ExportFormat;
+  // Deepest subcollection level exported (recursive exports only; null = unlimited)
+  maxDepth?: number | null;
+  collections: ManifestCollection[];
+  // Subcollections that exist below maxDepth and were not exported
+  skipped: string[];
+  files: ManifestFile[];
+}
+
+export interface ManifestVerification {
+  manifestPath: string;
+  manifest: ExportManifest | null;
+  // Missing manifest, missing files and checksum mismatches; any problem fails verification
+  problems: string[];
+  // Data files in the directory that the manifest doesn't list (e.g. left over from an older export)
+  unlisted: string[];
+}
+
+/**
+ * SHA-256 of a file, streamed so large exports aren't read into memory
+ */
+export function sha256File(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash("sha256");
+    fs.createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")))
+      .on("error", reject);
+  });
+}
+
+async function describeFile(outputDir: string, file: string): Promise<ManifestFile> {
+  const filePath = path.join(outputDir, file);
+  return {
+    path: file,
+    bytes: fs.statSync(filePath).size,
+    sha256: await sha256File(filePath),
+  };
+}
+
+/**
+ * Checksums every file the collections were written to and saves the manifest in the export directory
+ */
+export async function writeExportManifest(
+  outputDir: string,
+  manifest: Omit<ExportManifest, "files">,
+  fileName: string = MANIFEST_FILE
+): Promise<ExportManifest> {
+  const files = [...new Set(manifest.collections.map((collection) => collection.file).filter(Boolean))] as string[];
+  const complete: ExportManifest = {
+    ...manifest,
+    files: await Promise.all(files.map((file) => describeFile(outputDir, file))),
+  };
+
+  fs.writeFileSync(path.join(outputDir, fileName), JSON.stringify(complete, null, 2));
+  console.log(`Manifest saved to ${path.join(outputDir, fileName)}`);
+  return complete;
+}
+
+/**
+ * The manifest of an export directory (or of its changesets), or null if it has none
+ */
+export function loadExportManifest(dataDir: string, fileName: string = MANIFEST_FILE): ExportManifest | null {
+  const manifestPath = path.join(dataDir, fileName);
+  if (!fs.existsSync(manifestPath)) return null;
+  return JSON.parse(fs.readFileSync(manifestPath, "utf-8"));
+}
+
+/**
+ * Every exported data file (.json, .ndjson, .ndjson.gz) below a directory, relative to it;
+ * manifests and the incremental export state are not data
+ */
+function listDataFiles(dir: string, prefix: string = ""): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(path.join(dir, prefix), { withFileTypes: true })) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...listDataFiles(dir, relative));
+    } else if (/\.(json|ndjson|ndjson\.gz)$/.test(entry.name)) {
+      if (entry.name === EXPORT_STATE_FILE || entry.name.endsWith(MANIFEST_FILE)) continue;
+      files.push(relative);
+    }
+  }
+  return files;
+}
+
+/**
+ * Checks a data directory against its manifest: every listed file must exist with the
+ * recorded size and SHA-256, and every file in requiredFiles must be listed.
+ * Pass CHANGESET_MANIFEST_FILE to check the changesets instead of the full export.
+ */
+export async function verifyExportManifest(
+  dataDir: string,
+  requiredFiles: string[] = [],
+  fileName: string = MANIFEST_FILE
+): Promise<ManifestVerification> {
+  const manifestPath = path.join(dataDir, fileName);
+  const result: ManifestVerification = { manifestPath, manifest: null, problems: [], unlisted: [] };
+
+  if (!fs.existsSync(manifestPath)) {
+    result.problems.push(`No ${fileName} in ${dataDir}`);
+    return result;
+  }
+
+  const manifest = loadExportManifest(dataDir, fileName)!;
+  result.manifest = manifest;
+  const listed = new Set(manifest.files.map((file) => file.path));
+
+  for (const expected of manifest.files) {
+    const filePath = path.join(dataDir, expected.path);
+    if (!fs.existsSync(filePath)) {
+      result.problems.push(`${expected.path}: missing`);
+      continue;
+    }
+
+    const actual = await describeFile(dataDir, expected.path);
+    if (actual.bytes !== expected.bytes || actual.sha256 !== expected.sha256) {
+      result.problems.push(`${expected.path}: checksum mismatch (modified since the export)`);
+    }
+  }
+
+  for (const file of requiredFiles) {
+    if (!listed.has(file)) {
+      result.problems.push(`${file}: not listed in ${fileName}`);
+    }
+  }
+
+  // Changesets and full exports share the directory; each manifest only answers for its own kind
+  const changesets = fileName === CHANGESET_MANIFEST_FILE;
+  result.unlisted = listDataFiles(dataDir).filter(
+    (file) => !listed.has(file) && file.endsWith(".changeset.json") === changesets
+  );
+  return result;
+}
+
+/**
+ * Print the outcome of a verification
+ */
+export function printManifestVerification(result: ManifestVerification): void {
+  const manifest = result.manifest;
+  if (manifest) {
+    console.log(
+      `Export of ${manifest.projectId || "unknown project"} taken ${manifest.generatedAt} (${manifest.format}, ${manifest.files.length} files)`
+    );
+    for (const collection of manifest.collections.filter((collection) => collection.depth === undefined || collection.depth === 0)) {
+      console.log(`  ${collection.path}: ${collection.documents} documents`);
+    }
+  }
+
+  result.unlisted.forEach((file) => console.log(`⚠️  ${file}: not in the manifest (ignored)`));
+
+  if (result.problems.length === 0) {
+    console.log(`✅ ${result.manifestPath}: all files match`);
+  } else {
+    result.problems.forEach((problem) => console.log(`❌ ${problem}`));
+  }
+}
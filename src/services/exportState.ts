@@ -0,0 +1,129 @@
+// State of incremental exports, and the changesets they produce.
+// Kept free of Firestore imports so the migrator can read changesets without Firebase Admin.
+
+import * as fs from "fs";
+import * as path from "path";
+
+export const EXPORT_STATE_FILE = "export-state.json";
+
+export interface CollectionExportState {
+  // Latest document updateTime seen in the collection
+  highWaterMark: string | null;
+  exportedAt: string;
+  // Document ID -> updateTime at the last export
+  documents: Record<string, string>;
+}
+
+export interface ExportState {
+  collections: Record<string, CollectionExportState>;
+}
+
+// A document as exported: its ID plus its fields, with Firestore types encoded as tagged JSON
+export type ExportedDocument = { id: string } & Record<string, unknown>;
+
+/**
+ * Documents of a collection that changed between two exports
+ */
+export interface ExportChangeset {
+  collection: string;
+  // High-water mark of the previous export; null for the first (full) export
+  since: string | null;
+  until: string | null;
+  generatedAt: string;
+  // New and modified documents, encoded like any other export
+  upserted: ExportedDocument[];
+  // IDs of documents that existed at the previous export and are gone now
+  deleted: string[];
+}
+
+/**
+ * Exact, sortable form of a Firestore update time ("2024-01-01T00:00:00.123456789Z").
+ * Unlike Date#toISOString it keeps the nanoseconds, so no update is missed.
+ */
+export function formatUpdateTime(seconds: number, nanoseconds: number): string {
+  const iso = new Date(seconds * 1000).toISOString().slice(0, 19);
+  return `${iso}.${String(nanoseconds).padStart(9, "0")}Z`;
+}
+
+/**
+ * Reads the export state file, or an empty state when there hasn't been an incremental export yet
+ */
+export function loadExportState(statePath: string): ExportState {
+  if (!fs.existsSync(statePath)) {
+    return { collections: {} };
+  }
+  return JSON.parse(fs.readFileSync(statePath, "utf-8"));
+}
+
+/**
+ * Writes the export state atomically, so an interrupted export leaves the previous state intact
+ */
+export function saveExportState(statePath: string, state: ExportState): void {
+  const outputDir = path.dirname(statePath);
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  const tmpPath = `${statePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(state, null, 2));
+  fs.renameSync(tmpPath, statePath);
+}
+
+/**
+ * File name of a collection's changeset
+ */
+export function changesetFileName(collectionName: string): string {
+  return `${collectionName}.changeset.json`;
+}
+
+/**
+ * File that records the changeset of a collection a migration applied (its generatedAt). Not a data file,
+ * so writing it doesn't invalidate the export manifest.
+ */
+export function appliedMarkerFileName(collectionName: string): string {
+  return `${collectionName}.changeset.applied`;
+}
+
+/**
+ * The changeset of a collection no migration has applied yet, or null when there is none
+ */
+export function loadPendingChangeset(dataDir: string, collectionName: string): ExportChangeset | null {
+  const changesetPath = path.join(dataDir, changesetFileName(collectionName));
+  if (!fs.existsSync(changesetPath)) return null;
+
+  const changeset: ExportChangeset = JSON.parse(fs.readFileSync(changesetPath, "utf-8"));
+  const markerPath = path.join(dataDir, appliedMarkerFileName(collectionName));
+  const applied = fs.existsSync(markerPath) ? fs.readFileSync(markerPath, "utf-8").trim() : null;
+  return applied === changeset.generatedAt ? null : changeset;
+}
+
+/**
+ * Record that the current changesets of these collections were applied, so the next incremental
+ * export replaces them instead of merging into them
+ */
+export function markChangesetsApplied(dataDir: string, collectionNames: string[]): void {
+  for (const collectionName of collectionNames) {
+    const changeset = loadPendingChangeset(dataDir, collectionName);
+    if (!changeset) continue;
+    fs.writeFileSync(path.join(dataDir, appliedMarkerFileName(collectionName)), `${changeset.generatedAt}\n`);
+  }
+}
+
+/**
+ * One changeset holding the changes of a pending (unapplied) changeset followed by a newer one:
+ * a document's latest version wins, and a document deleted since is only listed as deleted
+ */
+export function mergeChangesets(pending: ExportChangeset, next: ExportChangeset): ExportChangeset {
+  const upsertedIds = new Set(next.upserted.map((document) => document.id));
+  const deleted = new Set(next.deleted);
+
+  return {
+    ...next,
+    since: pending.since,
+    upserted: [
+      ...pending.upserted.filter((document) => !upsertedIds.has(document.id) && !deleted.has(document.id)),
+      ...next.upserted,
+    ],
+    deleted: [...new Set([...pending.deleted.filter((id) => !upsertedIds.has(id)), ...next.deleted])],
+  };
+}
@@ -3,10 +3,97 @@
 import * as admin from "firebase-admin";
 import * as fs from "fs";
 import * as path from "path";
+import {
+  changesetFileName,
+  CollectionExportState,
+  EXPORT_STATE_FILE,
+  ExportChangeset,
+  ExportedDocument,
+  formatUpdateTime,
+  loadExportState,
+  loadPendingChangeset,
+  mergeChangesets,
+  saveExportState,
+} from "./exportState";
+import {
+  CHANGESET_MANIFEST_FILE,
+  ExportManifest,
+  ManifestCollection,
+  MANIFEST_FILE,
+  writeExportManifest,
+} from "./exportManifest";
+import { encodeFirestoreData } from "./firestoreTypes";
+import { createNdjsonWriter } from "./ndjson";
 
 // Get Firestore instance
 const db = admin.firestore();
 
+// Documents fetched per query when paginating a collection
+export const DEFAULT_PAGE_SIZE = 500;
+
+export interface NdjsonExportOptions {
+  pageSize?: number;
+  // Write <collection>.ndjson.gz instead of <collection>.ndjson
+  gzip?: boolean;
+}
+
+export interface JsonExportOptions {
+  // Write <collection>.changeset.json with only what changed since the last incremental export
+  incremental?: boolean;
+  // State of the last incremental export; defaults to <outputDir>/export-state.json
+  statePath?: string;
+  pageSize?: number;
+}
+
+// nested: one JSON tree per top-level collection; flat: one NDJSON file per collection path
+export type SubcollectionLayout = "nested" | "flat";
+
+export interface SubcollectionExportOptions extends NdjsonExportOptions {
+  // Deepest subcollection level to export (top-level collections are depth 0); unlimited by default
+  maxDepth?: number;
+  layout?: SubcollectionLayout;
+}
+
+// A where() clause of queryCollection
+export interface QueryFilter {
+  field: string;
+  operator: FirebaseFirestore.WhereFilterOp;
+  value: unknown;
+}
+
+// A manifest being filled in during an export; file checksums are added once every file is written
+type ManifestDraft = Omit<ExportManifest, "files">;
+
+/**
+ * ID of the Firebase project being exported, recorded in every export manifest
+ */
+export function getProjectId(): string | null {
+  return admin.app().options.projectId || process.env.GOOGLE_CLOUD_PROJECT || process.env.GCLOUD_PROJECT || null;
+}
+
+/**
+ * Starts the manifest of an export run
+ */
+function createManifestDraft(format: ExportManifest["format"]): ManifestDraft {
+  return {
+    projectId: getProjectId(),
+    generatedAt: new Date().toISOString(),
+    format,
+    collections: [],
+    skipped: [],
+  };
+}
+
+/**
+ * A document as exported: its ID plus its data, with Firestore types encoded as tagged JSON
+ */
+export function toExportedDocument(doc: FirebaseFirestore.DocumentSnapshot): ExportedDocument {
+  return {
+    id: doc.id,
+    ...encodeFirestoreData(doc.data() || {}),
+  };
+}
+
 /**
  * Fetches all collection names from Firestore
  */
@@ -26,14 +113,14 @@ export async function getAllCollections(): Promise<string[]> {
  * Fetches all documents from a specific collection
  */
 export async function getCollectionData(
-  collectionName: string
+  collectionName: string,
+  pageSize: number = DEFAULT_PAGE_SIZE
 ): Promise<any[]> {
   try {
-    const snapshot = await db.collection(collectionName).get();
-    const documents = snapshot.docs.map((doc) => ({
-      id: doc.id,
-      ...doc.data(),
-    }));
+    const documents: ExportedDocument[] = [];
+    for await (const page of streamCollectionPages(collectionName, pageSize)) {
+      documents.push(...page);
+    }
     console.log(
       `Fetched ${documents.length} documents from ${collectionName}`
     );
@@ -44,6 +131,47 @@ export async function getCollectionData(
   }
 }
 
+/**
+ * Walks a collection in document ID order, one page per query, using the last
+ * document of each page as the startAfter cursor of the next
+ */
+export async function* streamCollectionPages(
+  collectionName: string,
+  pageSize: number = DEFAULT_PAGE_SIZE
+): AsyncGenerator<ExportedDocument[]> {
+  for await (const page of streamSnapshotPages(collectionName, pageSize)) {
+    yield page.map(toExportedDocument);
+  }
+}
+
+/**
+ * Same as streamCollectionPages, but yields the raw snapshots (for callers that need doc.ref
+ * or doc.updateTime). Accepts any collection path, e.g. "rooms/r1/reviews".
+ */
+async function* streamSnapshotPages(
+  collectionPath: string,
+  pageSize: number = DEFAULT_PAGE_SIZE,
+  idsOnly: boolean = false
+): AsyncGenerator<FirebaseFirestore.QueryDocumentSnapshot[]> {
+  const collection = db.collection(collectionPath);
+  // select() with no fields returns only document metadata (ID and update time)
+  const baseQuery = (idsOnly ? collection.select() : collection)
+    .orderBy(admin.firestore.FieldPath.documentId())
+    .limit(pageSize);
+  let lastDoc: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+
+  while (true) {
+    const query = lastDoc ? baseQuery.startAfter(lastDoc) : baseQuery;
+    const snapshot = await query.get();
+    if (snapshot.empty) return;
+
+    yield snapshot.docs;
+
+    if (snapshot.size < pageSize) return;
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+}
+
 /**
  * Fetches all documents from a subcollection
  */
@@ -59,10 +187,7 @@ export async function getSubcollectionData(
       .collection(subcollectionName)
       .get();
 
-    const documents = snapshot.docs.map((doc) => ({
-      id: doc.id,
-      ...doc.data(),
-    }));
+    const documents = snapshot.docs.map(toExportedDocument);
 
     console.log(
       `Fetched ${documents.length} documents from ${parentCollection}/${parentDocId}/${subcollectionName}`
@@ -105,11 +230,23 @@ export async function saveToJson(
  */
 export async function exportCollectionToJson(
   collectionName: string,
-  outputDir: string = "./data"
-): Promise<void> {
+  outputDir: string = "./data",
+  options: JsonExportOptions = {}
+): Promise<ManifestCollection> {
   try {
-    const data = await getCollectionData(collectionName);
+    if (options.incremental) {
+      const changeset = await exportCollectionChangeset(collectionName, outputDir, options);
+      return {
+        path: collectionName,
+        documents: changeset.upserted.length,
+        deleted: changeset.deleted.length,
+        file: changesetFileName(collectionName),
+      };
+    }
+
+    const data = await getCollectionData(collectionName, options.pageSize);
     await saveToJson(data, `${collectionName}.json`, outputDir);
+    return { path: collectionName, documents: data.length, file: `${collectionName}.json` };
   } catch (error) {
     console.error(`Error exporting ${collectionName}:`, error);
     throw error;
@@ -117,21 +254,138 @@ export async function exportCollectionToJson(
 }
 
 /**
- * Exports all collections to JSON files
+ * Incremental export of a collection: lists every document's ID and update time, fetches only
+ * the documents that are new or changed since the last run, and diffs the ID sets to find
+ * deletions. Writes <collection>.changeset.json and then advances the state file.
+ * The first run (no state yet) produces a changeset holding every document. A changeset no migration
+ * has applied yet is merged into the new one rather than overwritten, so its changes are never lost.
  */
-export async function exportAllCollectionsToJson(
-  outputDir: string = "./data"
-): Promise<void> {
+export async function exportCollectionChangeset(
+  collectionName: string,
+  outputDir: string = "./data",
+  options: JsonExportOptions = {}
+): Promise<ExportChangeset> {
+  const statePath = options.statePath || path.join(outputDir, EXPORT_STATE_FILE);
+  const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
+  const state = loadExportState(statePath);
+  const previous = state.collections[collectionName];
+
+  const current: CollectionExportState = {
+    highWaterMark: null,
+    exportedAt: new Date().toISOString(),
+    documents: {},
+  };
+  const changedRefs: FirebaseFirestore.DocumentReference[] = [];
+
+  // Pass 1: metadata only, to find what changed
+  for await (const page of streamSnapshotPages(collectionName, pageSize, true)) {
+    for (const doc of page) {
+      const updateTime = formatUpdateTime(doc.updateTime.seconds, doc.updateTime.nanoseconds);
+      current.documents[doc.id] = updateTime;
+      if (previous?.documents[doc.id] !== updateTime) {
+        changedRefs.push(doc.ref);
+      }
+    }
+  }
+
+  // Pass 2: full documents, only for the changed ones
+  const upserted: ExportedDocument[] = [];
+  for (let i = 0; i < changedRefs.length; i += pageSize) {
+    const snapshots = await db.getAll(...changedRefs.slice(i, i + pageSize));
+    for (const snapshot of snapshots) {
+      // Deleted between the two passes; the next run reports it as deleted
+      if (!snapshot.exists) continue;
+      upserted.push(toExportedDocument(snapshot));
+      current.documents[snapshot.id] = formatUpdateTime(
+        snapshot.updateTime!.seconds,
+        snapshot.updateTime!.nanoseconds
+      );
+    }
+  }
+
+  for (const updateTime of Object.values(current.documents)) {
+    if (!current.highWaterMark || updateTime > current.highWaterMark) {
+      current.highWaterMark = updateTime;
+    }
+  }
+
+  const latest: ExportChangeset = {
+    collection: collectionName,
+    since: previous?.highWaterMark ?? null,
+    until: current.highWaterMark,
+    generatedAt: current.exportedAt,
+    upserted,
+    deleted: Object.keys(previous?.documents || {}).filter((id) => !(id in current.documents)),
+  };
+  const pending = loadPendingChangeset(outputDir, collectionName);
+  const changeset = pending ? mergeChangesets(pending, latest) : latest;
+  if (pending) {
+    console.log(`${collectionName}: merged into the changeset of ${pending.generatedAt}, which hasn't been applied yet`);
+  }
+
+  await saveToJson(changeset, changesetFileName(collectionName), outputDir);
+
+  state.collections[collectionName] = current;
+  saveExportState(statePath, state);
+
+  console.log(
+    `${collectionName}: ${changeset.upserted.length} changed, ${changeset.deleted.length} deleted since ${changeset.since || "the beginning"}`
+  );
+  return changeset;
+}
+
+/**
+ * Exports a collection to NDJSON (one document per line), streaming it page by page
+ * so the collection is never held in memory. Returns its manifest entry.
+ */
+export async function exportCollectionToNdjson(
+  collectionName: string,
+  outputDir: string = "./data",
+  options: NdjsonExportOptions = {}
+): Promise<ManifestCollection> {
+  const file = `${collectionName}.${options.gzip ? "ndjson.gz" : "ndjson"}`;
+  const filePath = path.join(outputDir, file);
+  const writer = createNdjsonWriter(filePath);
+  let count = 0;
+
+  try {
+    for await (const page of streamCollectionPages(collectionName, options.pageSize)) {
+      for (const document of page) {
+        await writer.write(document);
+      }
+      count += page.length;
+      console.log(`  ${collectionName}: ${count} documents...`);
+    }
+  } catch (error) {
+    console.error(`Error exporting ${collectionName}:`, error);
+    throw error;
+  } finally {
+    await writer.close();
+  }
+
+  console.log(`Exported ${count} documents from ${collectionName} to ${filePath}`);
+  return { path: collectionName, documents: count, file };
+}
+
+/**
+ * Exports all collections to NDJSON files, with a manifest.json
+ */
+export async function exportAllCollectionsToNdjson(
+  outputDir: string = "./data",
+  options: NdjsonExportOptions = {}
+): Promise<ExportManifest> {
   try {
     const collections = await getAllCollections();
+    const manifest = createManifestDraft("ndjson");
 
     for (const collectionName of collections) {
-      await exportCollectionToJson(collectionName, outputDir);
+      manifest.collections.push(await exportCollectionToNdjson(collectionName, outputDir, options));
     }
 
     console.log(
       `Successfully exported ${collections.length} collections to ${outputDir}`
     );
+    return await writeExportManifest(outputDir, manifest);
   } catch (error) {
     console.error("Error exporting all collections:", error);
     throw error;
@@ -139,42 +393,172 @@ export async function exportAllCollectionsToJson(
 }
 
 /**
- * Exports all data including subcollections to JSON
- * This creates a nested structure with subcollections included
+ * Exports all collections to JSON files with a manifest.json, or (incremental) to changesets
+ * with a changeset-manifest.json that leaves the full export's manifest alone
  */
-export async function exportCollectionWithSubcollections(
-  collectionName: string,
-  outputDir: string = "./data"
-): Promise<void> {
+export async function exportAllCollectionsToJson(
+  outputDir: string = "./data",
+  options: JsonExportOptions = {}
+): Promise<ExportManifest> {
   try {
-    const snapshot = await db.collection(collectionName).get();
-    const documents = [];
-
-    for (const doc of snapshot.docs) {
-      const docData: any = {
-        id: doc.id,
-        ...doc.data(),
-        _subcollections: {},
-      };
+    const collections = await getAllCollections();
+    const manifest = createManifestDraft(options.incremental ? "changeset" : "json");
 
-      // Get all subcollections for this document
-      const subcollections = await doc.ref.listCollections();
+    for (const collectionName of collections) {
+      manifest.collections.push(await exportCollectionToJson(collectionName, outputDir, options));
+    }
 
-      for (const subcol of subcollections) {
-        const subSnapshot = await subcol.get();
-        docData._subcollections[subcol.id] = subSnapshot.docs.map((subDoc) => ({
-          id: subDoc.id,
-          ...subDoc.data(),
-        }));
+    console.log(
+      `Successfully exported ${collections.length} collections to ${outputDir}`
+    );
+    return await writeExportManifest(
+      outputDir,
+      manifest,
+      options.incremental ? CHANGESET_MANIFEST_FILE : MANIFEST_FILE
+    );
+  } catch (error) {
+    console.error("Error exporting all collections:", error);
+    throw error;
+  }
+}
+
+/**
+ * Subcollections of a document that are within maxDepth; deeper ones are recorded as skipped
+ */
+async function listSubcollectionsWithinDepth(
+  doc: FirebaseFirestore.QueryDocumentSnapshot,
+  depth: number,
+  options: SubcollectionExportOptions,
+  manifest: ManifestDraft
+): Promise<FirebaseFirestore.CollectionReference[]> {
+  const subcollections = await doc.ref.listCollections();
+  if (options.maxDepth !== undefined && depth + 1 > options.maxDepth) {
+    manifest.skipped.push(...subcollections.map((subcol) => subcol.path));
+    return [];
+  }
+  return subcollections;
+}
+
+/**
+ * Reads a collection and, recursively, every subcollection of its documents into a tree
+ */
+async function readCollectionTree(
+  collectionPath: string,
+  depth: number,
+  options: SubcollectionExportOptions,
+  manifest: ManifestDraft
+): Promise<ExportedDocument[]> {
+  const entry: ManifestCollection = { path: collectionPath, depth, documents: 0 };
+  manifest.collections.push(entry);
+  const documents: ExportedDocument[] = [];
+
+  for await (const page of streamSnapshotPages(collectionPath, options.pageSize)) {
+    for (const doc of page) {
+      const subcollections: Record<string, ExportedDocument[]> = {};
+      const docData: ExportedDocument = {
+        ...toExportedDocument(doc),
+        _subcollections: subcollections,
+      };
+
+      for (const subcol of await listSubcollectionsWithinDepth(doc, depth, options, manifest)) {
+        subcollections[subcol.id] = await readCollectionTree(subcol.path, depth + 1, options, manifest);
       }
 
       documents.push(docData);
     }
+    entry.documents += page.length;
+  }
+
+  return documents;
+}
 
-    await saveToJson(documents, `${collectionName}_with_subcollections.json`, outputDir);
+/**
+ * Streams a collection to <outputDir>/<collection path>.ndjson, then does the same
+ * for every subcollection of its documents
+ */
+async function writeCollectionFiles(
+  collectionPath: string,
+  depth: number,
+  outputDir: string,
+  options: SubcollectionExportOptions,
+  manifest: ManifestDraft
+): Promise<void> {
+  const file = `${collectionPath}.${options.gzip ? "ndjson.gz" : "ndjson"}`;
+  const entry: ManifestCollection = { path: collectionPath, depth, documents: 0, file };
+  manifest.collections.push(entry);
+  const writer = createNdjsonWriter(path.join(outputDir, file));
+
+  try {
+    for await (const page of streamSnapshotPages(collectionPath, options.pageSize)) {
+      for (const doc of page) {
+        await writer.write(toExportedDocument(doc));
+      }
+      entry.documents += page.length;
+
+      for (const doc of page) {
+        for (const subcol of await listSubcollectionsWithinDepth(doc, depth, options, manifest)) {
+          await writeCollectionFiles(subcol.path, depth + 1, outputDir, options, manifest);
+        }
+      }
+    }
+  } finally {
+    await writer.close();
+  }
+}
+
+/**
+ * Recursively exports collections with every subcollection, to any depth (or up to options.maxDepth),
+ * and returns the manifest of every collection path discovered, so nothing is left behind.
+ * Only documents that exist are walked: subcollections under a document ID with no
+ * document of its own are not discovered.
+ */
+async function exportCollectionTrees(
+  collectionNames: string[],
+  outputDir: string,
+  options: SubcollectionExportOptions
+): Promise<ManifestDraft> {
+  const layout = options.layout || "nested";
+  const manifest: ManifestDraft = {
+    ...createManifestDraft(layout),
+    maxDepth: options.maxDepth ?? null,
+  };
+
+  for (const collectionName of collectionNames) {
+    if (layout === "flat") {
+      await writeCollectionFiles(collectionName, 0, outputDir, options, manifest);
+    } else {
+      const root = manifest.collections.length;
+      const documents = await readCollectionTree(collectionName, 0, options, manifest);
+      const file = `${collectionName}_with_subcollections.json`;
+      await saveToJson(documents, file, outputDir);
+      manifest.collections[root].file = file;
+    }
+  }
+
+  return manifest;
+}
+
+/**
+ * Exports all data including subcollections, recursively
+ * The nested layout (default) creates one nested structure with subcollections included;
+ * the flat layout writes one NDJSON file per collection path.
+ * A manifest of every collection path is written next to it.
+ */
+export async function exportCollectionWithSubcollections(
+  collectionName: string,
+  outputDir: string = "./data",
+  options: SubcollectionExportOptions = {}
+): Promise<ExportManifest> {
+  try {
+    const draft = await exportCollectionTrees([collectionName], outputDir, options);
+    const manifest = await writeExportManifest(outputDir, draft, `${collectionName}_manifest.json`);
     console.log(
-      `Exported ${collectionName} with subcollections to ${outputDir}`
+      `Exported ${collectionName} with ${manifest.collections.length - 1} subcollections to ${outputDir}`
     );
+    if (manifest.skipped.length > 0) {
+      console.log(`Skipped ${manifest.skipped.length} subcollections below depth ${manifest.maxDepth}`);
+    }
+    return manifest;
   } catch (error) {
     console.error(
       `Error exporting ${collectionName} with subcollections:`,
@@ -184,12 +568,38 @@ export async function exportCollectionWithSubcollections(
   }
 }
 
+/**
+ * Exports every collection with all of its subcollections, and writes a single manifest.json
+ */
+export async function exportAllCollectionsWithSubcollections(
+  outputDir: string = "./data",
+  options: SubcollectionExportOptions = {}
+): Promise<ExportManifest> {
+  try {
+    const collections = await getAllCollections();
+    const manifest = await writeExportManifest(
+      outputDir,
+      await exportCollectionTrees(collections, outputDir, options)
+    );
+    console.log(
+      `Exported ${manifest.collections.length} collection paths to ${outputDir}`
+    );
+    if (manifest.skipped.length > 0) {
+      console.log(`Skipped ${manifest.skipped.length} subcollections below depth ${manifest.maxDepth}`);
+    }
+    return manifest;
+  } catch (error) {
+    console.error("Error exporting all collections with subcollections:", error);
+    throw error;
+  }
+}
+
 /**
  * Query documents with filters
  */
 export async function queryCollection(
   collectionName: string,
-  filters: { field: string; operator: FirebaseFirestore.WhereFilterOp; value: any }[]
+  filters: QueryFilter[]
 ): Promise<any[]> {
   try {
     let query: FirebaseFirestore.Query = db.collection(collectionName);
@@ -200,10 +610,7 @@ export async function queryCollection(
     });
 
     const snapshot = await query.get();
-    const documents = snapshot.docs.map((doc) => ({
-      id: doc.id,
-      ...doc.data(),
-    }));
+    const documents = snapshot.docs.map(toExportedDocument);
 
     console.log(
       `Query returned ${documents.length} documents from ${collectionName}`
@@ -0,0 +1,149 @@
+// Tagged-JSON encoding of Firestore-specific types, so exports survive JSON.stringify losslessly.
+//
+// Each special value becomes an object with a "__type" tag:
+//   Timestamp          { "__type": "timestamp", "seconds": 1704067200, "nanoseconds": 0, "iso": "2024-01-01T00:00:00.000Z" }
+//   GeoPoint           { "__type": "geopoint", "latitude": 43.47, "longitude": -80.52 }
+//   DocumentReference  { "__type": "reference", "path": "buildings/abc123" }
+//   Bytes              { "__type": "bytes", "base64": "aGVsbG8=" }
+//   NaN / ±Infinity    { "__type": "number", "value": "NaN" | "Infinity" | "-Infinity" }
+// A map that has its own "__type" field is wrapped as { "__type": "map", "value": {...} }
+// so it can't be mistaken for a tagged value.
+
+import { DocumentReference, GeoPoint, Timestamp } from "firebase-admin/firestore";
+
+export const TYPE_TAG = "__type";
+
+export type FirestoreTypeTag = "timestamp" | "geopoint" | "reference" | "bytes" | "number" | "map";
+
+/**
+ * A decoded DocumentReference: its full path plus the parts needed to look it up
+ */
+export interface DocumentPath {
+  path: string;
+  // Path of the collection holding the document, e.g. "users/u1/posts"
+  collection: string;
+  id: string;
+}
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Encodes a Firestore value (as returned by doc.data()) into plain, tagged JSON
+ */
+export function encodeFirestoreValue(value: unknown): unknown {
+  if (value === null || value === undefined || typeof value === "string" || typeof value === "boolean") {
+    return value;
+  }
+
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : { [TYPE_TAG]: "number", value: String(value) };
+  }
+
+  if (value instanceof Timestamp) {
+    return {
+      [TYPE_TAG]: "timestamp",
+      seconds: value.seconds,
+      nanoseconds: value.nanoseconds,
+      iso: value.toDate().toISOString(),
+    };
+  }
+
+  if (value instanceof GeoPoint) {
+    return { [TYPE_TAG]: "geopoint", latitude: value.latitude, longitude: value.longitude };
+  }
+
+  if (value instanceof DocumentReference) {
+    return { [TYPE_TAG]: "reference", path: value.path };
+  }
+
+  if (value instanceof Uint8Array) {
+    return { [TYPE_TAG]: "bytes", base64: Buffer.from(value).toString("base64") };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(encodeFirestoreValue);
+  }
+
+  if (typeof value === "object") {
+    const encoded = encodeFirestoreData(value as Record<string, unknown>);
+    return TYPE_TAG in encoded ? { [TYPE_TAG]: "map", value: encoded } : encoded;
+  }
+
+  throw new Error(`Cannot encode Firestore value of type ${typeof value}`);
+}
+
+/**
+ * Encodes every field of a document's data
+ */
+export function encodeFirestoreData(data: Record<string, unknown>): Record<string, unknown> {
+  const encoded: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(data)) {
+    encoded[field] = encodeFirestoreValue(value);
+  }
+  return encoded;
+}
+
+/**
+ * Splits a document path ("users/u1/posts/p1") into its collection path and ID
+ */
+export function parseDocumentPath(path: string): DocumentPath {
+  const segments = path.split("/");
+  if (segments.length < 2 || segments.length % 2 !== 0 || segments.some((segment) => !segment)) {
+    throw new Error(`Invalid document path: ${path}`);
+  }
+
+  return {
+    path,
+    collection: segments.slice(0, -1).join("/"),
+    id: segments[segments.length - 1],
+  };
+}
+
+/**
+ * Decodes tagged JSON back into plain values: Timestamps become Dates, GeoPoints become
+ * coordinates, references become DocumentPaths, bytes become Buffers and special numbers
+ * become NaN / ±Infinity. Untagged values pass through unchanged, so plain JSON exports decode as-is.
+ */
+export function decodeFirestoreValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(decodeFirestoreValue);
+  }
+
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+
+  const record = value as Record<string, any>;
+  switch (record[TYPE_TAG] as FirestoreTypeTag | undefined) {
+    case undefined:
+      return decodeFirestoreData(record);
+    case "timestamp":
+      return new Date(record.seconds * 1000 + Math.floor(record.nanoseconds / 1e6));
+    case "geopoint":
+      return { latitude: record.latitude, longitude: record.longitude } as Coordinates;
+    case "reference":
+      return parseDocumentPath(record.path);
+    case "bytes":
+      return Buffer.from(record.base64, "base64");
+    case "number":
+      return Number(record.value);
+    case "map":
+      return decodeFirestoreData(record.value);
+    default:
+      throw new Error(`Unknown ${TYPE_TAG} tag: ${record[TYPE_TAG]}`);
+  }
+}
+
+/**
+ * Decodes every field of an exported document
+ */
+export function decodeFirestoreData(data: Record<string, unknown>): Record<string, unknown> {
+  const decoded: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(data)) {
+    decoded[field] = decodeFirestoreValue(value);
+  }
+  return decoded;
+}
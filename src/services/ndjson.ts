@@ -0,0 +1,77 @@
+// Newline-delimited JSON (one document per line) files, optionally gzipped.
+// Both sides stream, so a collection never has to fit in memory as one string.
+
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline";
+import * as zlib from "zlib";
+
+export interface NdjsonWriter {
+  write(document: unknown): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Whether a file is gzipped, judged by its extension (e.g. users.ndjson.gz)
+ */
+function isGzipped(filePath: string): boolean {
+  return filePath.endsWith(".gz");
+}
+
+/**
+ * Opens an NDJSON file for writing, gzipping it when the path ends in .gz.
+ * Writes wait for the stream to drain, so a fast producer can't buffer unbounded output.
+ */
+export function createNdjsonWriter(filePath: string): NdjsonWriter {
+  const outputDir = path.dirname(filePath);
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  const file = fs.createWriteStream(filePath);
+  const gzip = isGzipped(filePath) ? zlib.createGzip() : null;
+  if (gzip) gzip.pipe(file);
+  const output: NodeJS.WritableStream = gzip || file;
+
+  const finished = new Promise<void>((resolve, reject) => {
+    file.on("finish", resolve);
+    file.on("error", reject);
+    gzip?.on("error", reject);
+  });
+
+  return {
+    async write(document: unknown): Promise<void> {
+      if (!output.write(JSON.stringify(document) + "\n")) {
+        await new Promise<void>((resolve) => output.once("drain", resolve));
+      }
+    },
+    async close(): Promise<void> {
+      output.end();
+      await finished;
+    },
+  };
+}
+
+/**
+ * Reads an NDJSON file one document at a time, gunzipping it when the path ends in .gz.
+ * Blank lines are skipped; a malformed line throws with its line number.
+ */
+export async function* readNdjson<T = unknown>(filePath: string): AsyncGenerator<T> {
+  const file = fs.createReadStream(filePath);
+  const input = isGzipped(filePath) ? file.pipe(zlib.createGunzip()) : file;
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    if (!line.trim()) continue;
+
+    let document: T;
+    try {
+      document = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`Invalid JSON on line ${lineNumber} of ${filePath}: ${error}`);
+    }
+    yield document;
+  }
+}
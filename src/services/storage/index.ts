@@ -0,0 +1,29 @@
+// Storage backend selection. Set STORAGE_DRIVER to supabase (default), local or s3.
+
+import { LocalStorage } from "./localStorage";
+import { S3Storage } from "./s3Storage";
+import { SupabaseStorage } from "./supabaseStorage";
+import { StorageBackend } from "./types";
+
+export type { StorageBackend, StorageObject } from "./types";
+
+export type StorageDriver = "supabase" | "local" | "s3";
+
+/**
+ * Create the storage backend selected by STORAGE_DRIVER
+ */
+export function createStorageBackend(
+  bucket: string,
+  driver: string = process.env.STORAGE_DRIVER || "supabase"
+): StorageBackend {
+  switch (driver) {
+    case "supabase":
+      return new SupabaseStorage(bucket);
+    case "local":
+      return new LocalStorage(bucket);
+    case "s3":
+      return new S3Storage(bucket);
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}". Use supabase, local or s3.`);
+  }
+}
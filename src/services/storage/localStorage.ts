@@ -0,0 +1,76 @@
+import * as fs from "fs";
+import * as path from "path";
+import { StorageBackend, StorageObject } from "./types";
+
+/**
+ * Local directory backend for offline runs and tests.
+ * Objects are written to {rootDir}/{bucket}/{path}.
+ */
+export class LocalStorage implements StorageBackend {
+  readonly driver = "local";
+  private bucketDir: string;
+
+  constructor(
+    readonly bucket: string,
+    rootDir: string = process.env.STORAGE_LOCAL_DIR || "./data/storage",
+    private baseUrl: string | undefined = process.env.STORAGE_PUBLIC_URL
+  ) {
+    this.bucketDir = path.resolve(rootDir, bucket);
+  }
+
+  private resolve(objectPath: string): string {
+    const filePath = path.resolve(this.bucketDir, objectPath);
+    if (!filePath.startsWith(this.bucketDir + path.sep)) {
+      throw new Error(`Storage path escapes the bucket: ${objectPath}`);
+    }
+    return filePath;
+  }
+
+  async ensureBucket(): Promise<void> {
+    fs.mkdirSync(this.bucketDir, { recursive: true });
+  }
+
+  async put(objectPath: string, body: Buffer, _contentType: string): Promise<void> {
+    const filePath = this.resolve(objectPath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, body);
+  }
+
+  publicUrl(objectPath: string): string {
+    if (this.baseUrl) {
+      return `${this.baseUrl.replace(/\/+$/, "")}/${this.bucket}/${objectPath}`;
+    }
+    return `file://${this.resolve(objectPath)}`;
+  }
+
+  async list(prefix: string): Promise<StorageObject[]> {
+    const objects: StorageObject[] = [];
+
+    const walk = (dir: string) => {
+      if (!fs.existsSync(dir)) return;
+
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          walk(entryPath);
+        } else {
+          const stat = fs.statSync(entryPath);
+          objects.push({
+            path: path.relative(this.bucketDir, entryPath).split(path.sep).join("/"),
+            size: stat.size,
+            updatedAt: stat.mtime,
+          });
+        }
+      }
+    };
+
+    walk(this.bucketDir);
+    return objects.filter((object) => object.path.startsWith(prefix));
+  }
+
+  async delete(paths: string[]): Promise<void> {
+    for (const objectPath of paths) {
+      fs.rmSync(this.resolve(objectPath), { force: true });
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import {
+  CreateBucketCommand,
+  DeleteObjectsCommand,
+  HeadBucketCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+  S3ServiceException,
+} from "@aws-sdk/client-s3";
+import { StorageBackend, StorageObject } from "./types";
+
+// DeleteObjects accepts at most 1000 keys per request
+const DELETE_BATCH_SIZE = 1000;
+
+/**
+ * S3-compatible backend (AWS S3, MinIO, R2, ...)
+ */
+export class S3Storage implements StorageBackend {
+  readonly driver = "s3";
+  private client: S3Client;
+  private endpoint: string | undefined;
+  private publicBaseUrl: string | undefined;
+
+  constructor(readonly bucket: string) {
+    this.endpoint = process.env.S3_ENDPOINT;
+    this.publicBaseUrl = process.env.S3_PUBLIC_URL || process.env.STORAGE_PUBLIC_URL;
+
+    const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+
+    this.client = new S3Client({
+      region: process.env.S3_REGION || "us-east-1",
+      endpoint: this.endpoint,
+      // MinIO and most self-hosted servers need path-style URLs
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== "false",
+      credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+    });
+  }
+
+  async ensureBucket(): Promise<void> {
+    try {
+      await this.client.send(new HeadBucketCommand({ Bucket: this.bucket }));
+    } catch (error: unknown) {
+      if (!(error instanceof S3ServiceException) || error.$metadata.httpStatusCode !== 404) {
+        throw new Error(`Failed to check bucket: ${error}`);
+      }
+      await this.client.send(new CreateBucketCommand({ Bucket: this.bucket }));
+    }
+  }
+
+  async put(path: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: path,
+        Body: body,
+        ContentType: contentType,
+      })
+    );
+  }
+
+  publicUrl(path: string): string {
+    if (this.publicBaseUrl) {
+      return `${this.publicBaseUrl.replace(/\/+$/, "")}/${this.bucket}/${path}`;
+    }
+    if (this.endpoint) {
+      return `${this.endpoint.replace(/\/+$/, "")}/${this.bucket}/${path}`;
+    }
+    return `https://${this.bucket}.s3.amazonaws.com/${path}`;
+  }
+
+  async list(prefix: string): Promise<StorageObject[]> {
+    const objects: StorageObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        })
+      );
+
+      for (const item of response.Contents || []) {
+        if (!item.Key) continue;
+        objects.push({ path: item.Key, size: item.Size || 0, updatedAt: item.LastModified });
+      }
+
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  async delete(paths: string[]): Promise<void> {
+    for (let i = 0; i < paths.length; i += DELETE_BATCH_SIZE) {
+      const batch = paths.slice(i, i + DELETE_BATCH_SIZE);
+      const response = await this.client.send(
+        new DeleteObjectsCommand({
+          Bucket: this.bucket,
+          Delete: { Objects: batch.map((Key) => ({ Key })) },
+        })
+      );
+
+      if (response.Errors && response.Errors.length > 0) {
+        throw new Error(`Failed to delete ${response.Errors.length} objects: ${response.Errors[0].Message}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import { StorageBackend, StorageObject } from "./types";
+
+const LIST_PAGE_SIZE = 1000;
+
+/**
+ * Supabase Storage backend (the production bucket)
+ */
+export class SupabaseStorage implements StorageBackend {
+  readonly driver = "supabase";
+  private client: SupabaseClient;
+
+  constructor(readonly bucket: string) {
+    const supabaseUrl = process.env.SUPABASE_URL || "https://mnyqhpnsoedlbdnbapjv.supabase.co";
+    const supabaseKey =
+      process.env.SUPABASE_SERVICE_KEY || process.env.SUPABASE_KEY || process.env.SUPABASE_ANON_KEY;
+
+    if (!supabaseKey) {
+      throw new Error(
+        "Supabase key not found in environment variables. Add one of SUPABASE_SERVICE_KEY " +
+          "(recommended for migrations), SUPABASE_KEY or SUPABASE_ANON_KEY to your .env file."
+      );
+    }
+
+    this.client = createClient(supabaseUrl, supabaseKey);
+  }
+
+  async ensureBucket(): Promise<void> {
+    const { data: buckets, error: listError } = await this.client.storage.listBuckets();
+
+    if (listError) {
+      throw new Error(`Failed to list buckets: ${listError.message}`);
+    }
+
+    if (buckets?.some((bucket) => bucket.name === this.bucket)) return;
+
+    const { error: createError } = await this.client.storage.createBucket(this.bucket, {
+      public: true,
+      fileSizeLimit: 10485760, // 10MB
+      allowedMimeTypes: ["image/webp", "image/jpeg", "image/png", "image/jpg"],
+    });
+
+    if (createError) {
+      throw new Error(`Failed to create bucket: ${createError.message}`);
+    }
+  }
+
+  async put(path: string, body: Buffer, contentType: string): Promise<void> {
+    const { error } = await this.client.storage.from(this.bucket).upload(path, body, {
+      contentType,
+      upsert: true,
+    });
+
+    if (error) {
+      throw new Error(`Supabase upload error: ${error.message}`);
+    }
+  }
+
+  publicUrl(path: string): string {
+    return this.client.storage.from(this.bucket).getPublicUrl(path).data.publicUrl;
+  }
+
+  async list(prefix: string): Promise<StorageObject[]> {
+    const objects: StorageObject[] = [];
+    const folder = prefix.replace(/\/+$/, "");
+
+    // Supabase lists one folder level at a time; entries without an id are subfolders
+    for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+      const { data, error } = await this.client.storage
+        .from(this.bucket)
+        .list(folder, { limit: LIST_PAGE_SIZE, offset });
+
+      if (error) {
+        throw new Error(`Failed to list ${folder}: ${error.message}`);
+      }
+
+      for (const entry of data || []) {
+        const entryPath = folder ? `${folder}/${entry.name}` : entry.name;
+
+        if (entry.id === null) {
+          objects.push(...(await this.list(entryPath)));
+        } else {
+          objects.push({
+            path: entryPath,
+            size: Number(entry.metadata?.size || 0),
+            updatedAt: entry.updated_at ? new Date(entry.updated_at) : undefined,
+          });
+        }
+      }
+
+      if (!data || data.length < LIST_PAGE_SIZE) break;
+    }
+
+    return objects;
+  }
+
+  async delete(paths: string[]): Promise<void> {
+    if (paths.length === 0) return;
+
+    const { error } = await this.client.storage.from(this.bucket).remove(paths);
+
+    if (error) {
+      throw new Error(`Failed to delete objects: ${error.message}`);
+    }
+  }
+}
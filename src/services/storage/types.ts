@@ -0,0 +1,32 @@
+// Shared types for the storage backends
+
+export interface StorageObject {
+  path: string;
+  size: number;
+  updatedAt?: Date;
+}
+
+/**
+ * A bucket that migrated photos are stored in.
+ * Paths are always bucket-relative ("universities/{id}/photos/..."), so Photo.storagePath
+ * is the same whichever backend is used.
+ */
+export interface StorageBackend {
+  readonly driver: string;
+  readonly bucket: string;
+
+  /** Create the bucket if it doesn't exist */
+  ensureBucket(): Promise<void>;
+
+  /** Upload (or overwrite) an object */
+  put(path: string, body: Buffer, contentType: string): Promise<void>;
+
+  /** Public URL an uploaded object is served from */
+  publicUrl(path: string): string;
+
+  /** List every object under a prefix, recursively */
+  list(prefix: string): Promise<StorageObject[]>;
+
+  /** Delete objects by path */
+  delete(paths: string[]): Promise<void>;
+}
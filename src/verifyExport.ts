@@ -0,0 +1,51 @@
+import {
+  CHANGESET_MANIFEST_FILE,
+  ManifestVerification,
+  MANIFEST_FILE,
+  printManifestVerification,
+  verifyExportManifest,
+} from './services/exportManifest';
+import { loadCollectionMappings, mappedCollections } from './migration/mappings';
+import { verifySourceData } from './migration/sourceData';
+import { loadUniversityConfigs, resolveDataDir } from './migration/universities';
+
+export interface VerifyOptions {
+  // Any export directory; when unset, the dataDir of each configured university
+  dataDir?: string;
+  // Configured universities to verify (empty: all)
+  universities: string[];
+  // Check the changesets a --changeset migration would read instead of full exports
+  changeset: boolean;
+}
+
+/**
+ * Check exported data directories against their manifest.json (or, for changesets, changeset-manifest.json)
+ * before migrating them.
+ * Returns false if a listed file is missing or was modified, or a file the migration reads isn't listed.
+ */
+export async function verifyExports(options: VerifyOptions): Promise<boolean> {
+  const results: ManifestVerification[] = [];
+  
+  if (options.dataDir) {
+    console.log(`\n🔏 ${options.dataDir}`);
+    const fileName = options.changeset ? CHANGESET_MANIFEST_FILE : MANIFEST_FILE;
+    results.push(await verifyExportManifest(options.dataDir, [], fileName));
+    printManifestVerification(results[0]);
+  } else {
+    const collections = mappedCollections(loadCollectionMappings());
+    for (const config of loadUniversityConfigs(options.universities)) {
+      console.log(`\n🔏 ${config.name} (${resolveDataDir(config)})`);
+      const result = await verifySourceData(resolveDataDir(config), options.changeset, collections);
+      printManifestVerification(result);
+      results.push(result);
+    }
+  }
+  
+  const failed = results.filter(result => result.problems.length > 0).length;
+  if (failed > 0) {
+    console.log(`\n❌ ${failed} export(s) failed verification`);
+    return false;
+  }
+  console.log('\n✅ All exports verified');
+  return true;
+}
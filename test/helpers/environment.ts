@@ -0,0 +1,20 @@
+// Points everything a migration writes (storage, reports, checkpoints) at a fresh temporary directory.
+// Import this before any src module: they read these variables when they load.
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export const WORK_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'occupeye-test-'));
+
+export const STORAGE_DIR = path.join(WORK_DIR, 'storage');
+export const TEST_BUCKET = 'test-photos';
+
+Object.assign(process.env, {
+  STORAGE_DRIVER: 'local',
+  STORAGE_LOCAL_DIR: STORAGE_DIR,
+  STORAGE_BUCKET: TEST_BUCKET,
+  REPORTS_DIR: path.join(WORK_DIR, 'reports'),
+  CHECKPOINTS_DIR: path.join(WORK_DIR, 'checkpoints'),
+  LOG_LEVEL: process.env.TEST_LOG_LEVEL || 'error',
+});
@@ -0,0 +1,36 @@
+// Fixture collections (test/fixtures/collections) and the university config the integration suite migrates
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { UniversityConfig } from '../../src/migration/universities';
+
+const FIXTURES_DIR = path.join(__dirname, '../fixtures/collections');
+
+/**
+ * Copy the fixture collections into dataDir, pointing their image URLs at the stub image server
+ */
+export function writeFixtureCollections(dataDir: string, imageServerUrl: string): void {
+  fs.mkdirSync(dataDir, { recursive: true });
+  for (const file of fs.readdirSync(FIXTURES_DIR)) {
+    const contents = fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf-8');
+    fs.writeFileSync(path.join(dataDir, file), contents.split('{{IMAGE_SERVER}}').join(imageServerUrl));
+  }
+}
+
+/**
+ * Config of the fixture university, reading its collections from dataDir
+ */
+export function fixtureUniversity(dataDir: string): UniversityConfig {
+  return {
+    name: 'Test University',
+    slug: 'test-university',
+    dataDir,
+    storagePrefix: 'universities/{slug}',
+    buildingAliases: {
+      'Library': 'University Library',
+      'Science & Research': 'Science Building',
+      'Science Building': 'Science Building',
+      'Arts': 'Arts Building',
+    },
+  };
+}
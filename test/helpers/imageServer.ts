@@ -0,0 +1,41 @@
+// Stand-in for the Firebase Storage URLs photos are downloaded from. Serves a generated PNG for every
+// /images/<name>.png except /images/missing.png, which is a 404, and counts the requests per path.
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import sharp from 'sharp';
+
+export const MISSING_IMAGE = '/images/missing.png';
+
+export interface ImageServer {
+  url: string;
+  requests: Map<string, number>;
+  stop(): Promise<void>;
+}
+
+export async function startImageServer(): Promise<ImageServer> {
+  const image = await sharp({
+    create: { width: 1200, height: 900, channels: 3, background: { r: 40, g: 120, b: 90 } },
+  }).png().toBuffer();
+  const requests = new Map<string, number>();
+
+  const server = http.createServer((request, response) => {
+    const url = request.url || '/';
+    requests.set(url, (requests.get(url) || 0) + 1);
+
+    if (url === MISSING_IMAGE || !/^\/images\/[\w-]+\.png$/.test(url)) {
+      response.writeHead(404).end();
+      return;
+    }
+    response.writeHead(200, { 'Content-Type': 'image/png', 'Content-Length': image.length }).end(image);
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    stop: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
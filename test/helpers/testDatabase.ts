@@ -0,0 +1,67 @@
+// Postgres for the integration suite: TEST_DATABASE_URL when set (a database the suite may wipe), otherwise
+// an embedded PGlite served over a Unix socket. Either way the Prisma schema is pushed to it first.
+
+import { PGlite } from '@electric-sql/pglite';
+import { PGLiteSocketServer } from '@electric-sql/pglite-socket';
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import { ROOT_DIR } from '../../src/migration/config';
+
+export interface TestDatabase {
+  url: string;
+  // Connections the database accepts at once (PGlite serves one at a time); undefined when unlimited
+  poolSize?: number;
+  stop(): Promise<void>;
+}
+
+/**
+ * Create every table of prisma/schema.prisma in an empty database (dropping whatever was there).
+ * Asynchronous, since the embedded database answers from this process.
+ */
+async function pushSchema(url: string): Promise<void> {
+  try {
+    await promisify(execFile)('npx', ['prisma', 'db', 'push', '--force-reset', '--accept-data-loss'], {
+      cwd: ROOT_DIR,
+      env: { ...process.env, DIRECT_URL: url },
+    });
+  } catch (error) {
+    const output = (error as { stderr?: string }).stderr || `${error}`;
+    throw new Error(`Couldn't push the Prisma schema to the test database:\n${output}`);
+  }
+}
+
+/**
+ * Start (or connect to) the test database, with the schema in place
+ */
+export async function startTestDatabase(): Promise<TestDatabase> {
+  const external = process.env.TEST_DATABASE_URL;
+  if (external) {
+    await pushSchema(external);
+    return { url: external, stop: async () => {} };
+  }
+
+  const socketDir = fs.mkdtempSync(path.join(os.tmpdir(), 'occupeye-pglite-'));
+  const db = await PGlite.create();
+  const server = new PGLiteSocketServer({ db, path: path.join(socketDir, '.s.PGSQL.5432') });
+  await server.start();
+
+  const stop = async () => {
+    await server.stop();
+    await db.close();
+    fs.rmSync(socketDir, { recursive: true, force: true });
+  };
+
+  const url = `postgresql://postgres@localhost:5432/postgres?host=${socketDir}`;
+  try {
+    await pushSchema(url);
+  } catch (error) {
+    // Otherwise the socket server keeps the test process alive
+    await stop();
+    throw error;
+  }
+
+  return { url, poolSize: 1, stop };
+}
@@ -0,0 +1,218 @@
+// Runs the whole migration against a test database, the local storage backend and a stub image server
+
+// First, so the src modules see the test environment when they load
+import { STORAGE_DIR, TEST_BUCKET, WORK_DIR } from '../helpers/environment';
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BuildingResolver } from '../../src/migration/buildings';
+import { IMAGE_VARIANTS } from '../../src/migration/config';
+import { lectureHallPhotoPath, studySpotPhotoPath, variantPaths } from '../../src/migration/photos';
+import { RunReport } from '../../src/migration/runReport';
+import { loadStudyRooms } from '../../src/migration/sourceData';
+import { UniversityConfig } from '../../src/migration/universities';
+import { fixtureUniversity, writeFixtureCollections } from '../helpers/fixtures';
+import { ImageServer, MISSING_IMAGE, startImageServer } from '../helpers/imageServer';
+import { startTestDatabase, TestDatabase } from '../helpers/testDatabase';
+
+const STORAGE_PREFIX = 'universities/test-university';
+
+describe('migration pipeline', () => {
+  let database: TestDatabase;
+  let images: ImageServer;
+  let config: UniversityConfig;
+  let migration: typeof import('../../src/migrateData');
+  let firstRun: RunReport;
+
+  before(async () => {
+    database = await startTestDatabase();
+    images = await startImageServer();
+
+    config = fixtureUniversity(path.join(WORK_DIR, 'collections'));
+    writeFixtureCollections(config.dataDir, images.url);
+
+    // The database client is created when migrateData loads, so it is imported once the database is up
+    process.env.DIRECT_URL = database.url;
+    process.env.DATABASE_POOL_SIZE = database.poolSize ? String(database.poolSize) : '';
+    migration = await import('../../src/migrateData');
+  });
+
+  after(async () => {
+    await migration?.disconnectDatabase();
+    await images?.stop();
+    await database?.stop();
+    fs.rmSync(WORK_DIR, { recursive: true, force: true });
+  });
+
+  const migrate = () => migration.migrateUniversity(config, { skipVerify: true, photoRetries: 0, photoConcurrency: 2 });
+
+  it('migrates the fixture university', async () => {
+    firstRun = await migrate();
+    const { prisma } = migration;
+
+    assert.equal(firstRun.status, 'succeeded');
+    const university = await prisma.university.findUniqueOrThrow({ where: { slug: 'test-university' } });
+    assert.equal(university.migrationRunId, firstRun.runId);
+
+    const buildings = await prisma.building.findMany({ where: { universityId: university.id }, orderBy: { name: 'asc' } });
+    assert.deepEqual(buildings.map(building => building.name), ['Arts Building', 'Science Building', 'University Library']);
+
+    const studySpots = await prisma.studySpot.findMany({ include: { building: true }, orderBy: { sourceId: 'asc' } });
+    assert.deepEqual(
+      studySpots.map(spot => [spot.sourceId, spot.building.name]),
+      [['study-library-5', 'University Library'], ['study-science-lounge', 'Science Building']]
+    );
+    assert.deepEqual(studySpots[0].features, ['WIFI', 'POWER_OUTLETS']);
+    assert.equal(studySpots[0].spaceType, 'INDEPENDENT_STUDY_ROOM');
+    assert.equal(studySpots[1].spaceType, null);
+
+    const arts = await prisma.lectureHall.findFirstOrThrow({ where: { sourceId: 'room-arts-101' } });
+    assert.deepEqual(
+      [arts.room, arts.hasAvInputs, arts.hasPc, arts.hasWhiteboard, arts.hasProjector],
+      ['A101', true, true, false, true]
+    );
+    assert.equal(await prisma.lectureHall.count(), 2);
+
+    const run = await prisma.migrationRun.findUniqueOrThrow({ where: { id: firstRun.runId } });
+    assert.equal(run.status, 'succeeded');
+  });
+
+  it('uploads every variant of every photo under the university prefix', async () => {
+    const { prisma } = migration;
+    const library = await prisma.studySpot.findFirstOrThrow({ where: { sourceId: 'study-library-5' } });
+    const arts = await prisma.lectureHall.findFirstOrThrow({ where: { sourceId: 'room-arts-101' } });
+    const expected = [
+      studySpotPhotoPath(STORAGE_PREFIX, library.id, 0),
+      studySpotPhotoPath(STORAGE_PREFIX, library.id, 1),
+      lectureHallPhotoPath(STORAGE_PREFIX, arts.id, 0),
+    ];
+
+    const photos = await prisma.photo.findMany({ include: { variants: true } });
+    assert.deepEqual(photos.map(photo => photo.storagePath).sort(), [...expected].sort());
+
+    for (const photo of photos) {
+      assert.equal(photo.variants.length, IMAGE_VARIANTS.length);
+      assert.match(photo.placeholder || '', /^data:image\/webp;base64,/);
+      for (const variantPath of variantPaths(photo.storagePath)) {
+        assert.ok(fs.existsSync(path.join(STORAGE_DIR, TEST_BUCKET, variantPath)), `${variantPath} was uploaded`);
+      }
+    }
+
+    const objects = await prisma.migrationRunObject.count({ where: { runId: firstRun.runId } });
+    assert.equal(objects, expected.length * IMAGE_VARIANTS.length);
+  });
+
+  it('reports records and photos that failed without failing the run', () => {
+    assert.deepEqual(
+      firstRun.errors.map(error => [error.step, error.entityType, error.sourceId]),
+      [
+        ['studySpots', 'StudySpot', 'study-unknown'],
+        ['photos', 'Photo', `${images.url}${MISSING_IMAGE}`],
+      ]
+    );
+    assert.match(firstRun.errors[0].error.message, /Building not resolved: "Global Innovation Exchange"/);
+
+    assert.equal(firstRun.failedPhotos.length, 1);
+    assert.equal(firstRun.failedPhotos[0].stage, 'download');
+    assert.deepEqual(
+      [firstRun.counts.studySpots, firstRun.counts.lectureHalls, firstRun.counts.photos],
+      [2, 2, 3]
+    );
+
+    const reports = fs.readdirSync(process.env.REPORTS_DIR!);
+    assert.ok(reports.some(file => /^migration-run-test-university-.*\.json$/.test(file)));
+    assert.ok(reports.some(file => /^migration-run-test-university-.*\.md$/.test(file)));
+  });
+
+  it('leaves everything as it is when run again', async () => {
+    const { prisma } = migration;
+    const before = await Promise.all([prisma.studySpot.count(), prisma.lectureHall.count(), prisma.photo.count()]);
+    const downloads = images.requests.get('/images/library-1.png');
+
+    const secondRun = await migrate();
+
+    assert.deepEqual(await Promise.all([prisma.studySpot.count(), prisma.lectureHall.count(), prisma.photo.count()]), before);
+    assert.equal(secondRun.counts.photos, 0);
+    assert.equal(secondRun.counts.photosUnchanged, 3);
+    assert.equal(images.requests.get('/images/library-1.png'), downloads);
+  });
+
+  it('falls back to record-by-record writes when a batch fails', async () => {
+    const { prisma } = migration;
+    const university = await prisma.university.findUniqueOrThrow({ where: { slug: 'test-university' } });
+    const buildings = await prisma.building.findMany({ where: { universityId: university.id } });
+    const buildingMap = new Map(buildings.map(building => [building.name, building.id]));
+    // A building ID that doesn't exist makes the library's update violate its foreign key
+    buildingMap.set('University Library', 'missing-building');
+
+    const resolver = new BuildingResolver(config.buildingAliases, [...buildingMap.keys()]);
+    const studyRooms = await loadStudyRooms(config.dataDir);
+    let studySpotMap = new Map<string, string>();
+
+    // Rolled back at the end so the database is left as the migration wrote it
+    await assert.rejects(prisma.$transaction(async tx => {
+      studySpotMap = await migration.migrateStudySpots(tx, university.id, buildingMap, studyRooms, resolver);
+      throw new Error('rollback');
+    }), /rollback/);
+
+    assert.deepEqual([...studySpotMap.keys()], ['study-science-lounge']);
+  });
+
+  it('records and reports a run whose source data can\'t be loaded', async () => {
+    const { prisma } = migration;
+    const broken = { ...config, name: 'Broken University', slug: 'broken-university', dataDir: path.join(WORK_DIR, 'empty') };
+    fs.mkdirSync(broken.dataDir, { recursive: true });
+
+    await assert.rejects(migration.migrateUniversity(broken, { skipVerify: true }), /No export of study-rooms found/);
+
+    const run = await prisma.migrationRun.findFirstOrThrow({ where: { university: 'broken-university' } });
+    assert.equal(run.status, 'failed');
+    assert.match(run.error || '', /No export of study-rooms found/);
+    assert.ok(fs.readdirSync(process.env.REPORTS_DIR!).some(file => /^migration-run-broken-university-.*\.md$/.test(file)));
+  });
+
+  it('keeps universities whose projects share document IDs apart', async () => {
+    const { prisma } = migration;
+    const university = await prisma.university.findUniqueOrThrow({ where: { slug: 'test-university' } });
+    const before = await prisma.studySpot.findMany({ where: { sourceUniversityId: university.id }, orderBy: { sourceId: 'asc' } });
+
+    // Same export, so every document ID is also one of the first university's
+    const other = { ...config, name: 'Other University', slug: 'other-university' };
+    const run = await migration.migrateUniversity(other, { skipVerify: true, photoRetries: 0, photoConcurrency: 2 });
+    assert.equal(run.status, 'succeeded');
+
+    const after = await prisma.studySpot.findMany({ where: { sourceUniversityId: university.id }, orderBy: { sourceId: 'asc' } });
+    assert.deepEqual(after, before);
+
+    const otherSpots = await prisma.studySpot.findMany({
+      where: { sourceUniversity: { slug: 'other-university' } },
+      include: { building: { include: { university: true } } },
+    });
+    assert.equal(otherSpots.length, before.length);
+    assert.ok(otherSpots.every(spot => spot.building.university.slug === 'other-university'));
+    assert.equal(await prisma.lectureHall.count({ where: { sourceUniversity: { slug: 'other-university' } } }), 2);
+  });
+
+  it('flags a record removed from the source, then deletes it in a later run', async () => {
+    const { prisma } = migration;
+    const dataDir = path.join(WORK_DIR, 'pruned');
+    fs.cpSync(config.dataDir, dataDir, { recursive: true });
+    const studyRoomsPath = path.join(dataDir, 'study-rooms.json');
+    const studyRooms: { id: string }[] = JSON.parse(fs.readFileSync(studyRoomsPath, 'utf-8'));
+    fs.writeFileSync(studyRoomsPath, JSON.stringify(studyRooms.filter(room => room.id !== 'study-science-lounge')));
+
+    const other = { ...config, name: 'Other University', slug: 'other-university', dataDir };
+    const prune = (pruneMode: 'flag' | 'delete') =>
+      migration.migrateUniversity(other, { skipVerify: true, photoRetries: 0, photoConcurrency: 2, pruneMode });
+    const lounge = { sourceUniversity: { slug: 'other-university' }, sourceId: 'study-science-lounge' };
+
+    assert.equal((await prune('flag')).status, 'succeeded');
+    const flagged = await prisma.studySpot.findFirstOrThrow({ where: lounge });
+    assert.ok(flagged.sourceRemovedAt);
+
+    assert.equal((await prune('delete')).status, 'succeeded');
+    assert.equal(await prisma.studySpot.count({ where: lounge }), 0);
+    assert.equal(await prisma.studySpot.count({ where: { sourceUniversity: { slug: 'test-university' } } }), 2);
+  });
+});
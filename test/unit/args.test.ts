@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { OptionSpec, parseOptions, splitList, UsageError } from '../../src/cli/args';
+
+const SPECS: OptionSpec[] = [
+  { name: 'dry-run', type: 'boolean', description: '' },
+  { name: 'page-size', type: 'integer', min: 1, description: '' },
+  { name: 'prune', type: 'string', choices: ['none', 'flag', 'delete'], implicit: 'flag', description: '' },
+  { name: 'where', type: 'string', multiple: true, description: '' },
+];
+
+describe('parseOptions', () => {
+  it('parses flags, typed values, implicit values and repeated options', () => {
+    assert.deepEqual(parseOptions(SPECS, ['--dry-run', '--page-size=50', '--prune', '--where=a,==,1', '--where=b,>,2']), {
+      'dry-run': true,
+      'page-size': 50,
+      'prune': 'flag',
+      'where': ['a,==,1', 'b,>,2'],
+    });
+  });
+
+  it('rejects unknown options and invalid values', () => {
+    for (const args of [['--nope'], ['--page-size=0'], ['--page-size=1.5'], ['--prune=all'], ['--dry-run=yes'], ['positional']]) {
+      assert.throws(() => parseOptions(SPECS, args), UsageError, args.join(' '));
+    }
+  });
+});
+
+describe('splitList', () => {
+  it('trims items and drops empty ones', () => {
+    assert.deepEqual(splitList(' a, b,,c '), ['a', 'b', 'c']);
+    assert.deepEqual(splitList(undefined), []);
+  });
+});
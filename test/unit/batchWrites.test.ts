@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { chunk, differsFrom, SavepointClient, writeInBatches } from '../../src/migration/batchWrites';
+import { createLogger, LogFields } from '../../src/migration/logger';
+
+// Records the savepoint statements instead of running them
+function recordingClient(): SavepointClient & { statements: string[] } {
+  const statements: string[] = [];
+  return {
+    statements,
+    async $executeRawUnsafe(query: string) {
+      statements.push(query);
+      return 0;
+    },
+  };
+}
+
+describe('chunk', () => {
+  it('splits into chunks of at most the given size', () => {
+    assert.deepEqual(chunk([1, 2, 3, 4, 5], 2), [[1, 2], [3, 4], [5]]);
+    assert.deepEqual(chunk([], 3), []);
+  });
+});
+
+describe('writeInBatches', () => {
+  it('writes whole batches when they succeed', async () => {
+    const db = recordingClient();
+    const batches: number[][] = [];
+
+    await writeInBatches(db, [1, 2, 3], 2, async batch => { batches.push(batch); }, async () => {
+      assert.fail('no record-by-record writes expected');
+    }, () => assert.fail('no errors expected'));
+
+    assert.deepEqual(batches, [[1, 2], [3]]);
+    assert.deepEqual(db.statements, [
+      'SAVEPOINT migration_batch',
+      'RELEASE SAVEPOINT migration_batch',
+      'SAVEPOINT migration_batch',
+      'RELEASE SAVEPOINT migration_batch',
+    ]);
+  });
+
+  it('retries a failed batch record by record and reports only the failing records', async () => {
+    const db = recordingClient();
+    const written: number[] = [];
+    const failed: number[] = [];
+
+    await writeInBatches(
+      db,
+      [1, 2, 3],
+      3,
+      async () => { throw new Error('batch failed'); },
+      async item => {
+        if (item === 2) throw new Error('bad record');
+        written.push(item);
+      },
+      item => failed.push(item)
+    );
+
+    assert.deepEqual(written, [1, 3]);
+    assert.deepEqual(failed, [2]);
+    assert.equal(db.statements.filter(statement => statement.startsWith('ROLLBACK TO')).length, 2);
+  });
+
+  it('logs why a batch failed at debug level', async () => {
+    const entries: LogFields[] = [];
+    const log = { ...createLogger(), debug: (_message: string, fields: LogFields = {}) => { entries.push(fields); } };
+
+    await writeInBatches(recordingClient(), [1, 2], 5, async () => { throw new Error('batch failed'); }, async () => {}, () => {}, log);
+
+    assert.equal(entries.length, 1);
+    assert.equal(entries[0].batchSize, 2);
+    assert.match(String(entries[0].error), /batch failed/);
+  });
+});
+
+describe('differsFrom', () => {
+  it('compares arrays and dates by value', () => {
+    const row = { name: 'A', features: ['Wifi'], removedAt: new Date(0) };
+
+    assert.equal(differsFrom(row, { name: 'A', features: ['Wifi'], removedAt: new Date(0) }), false);
+    assert.equal(differsFrom(row, { features: ['Wifi', 'Cafe'] }), true);
+    assert.equal(differsFrom(row, { removedAt: null }), true);
+  });
+});
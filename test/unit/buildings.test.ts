@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BuildingResolver, canonicalizeBuildingName } from '../../src/migration/buildings';
+
+const ALIASES = {
+  'Peters': 'Peters Building',
+  'Fred Nichols Campus Center': 'Fred Nichols Campus Center',
+  'Lazaridis Hall': 'Lazaridis Hall',
+};
+
+describe('canonicalizeBuildingName', () => {
+  it('ignores case, punctuation, whitespace and British spellings', () => {
+    assert.equal(canonicalizeBuildingName('  Fred Nichols  Campus Centre '), 'fred nichols campus center');
+    assert.equal(canonicalizeBuildingName('Science & Research'), 'science and research');
+  });
+});
+
+describe('BuildingResolver', () => {
+  it('resolves aliases, normalized names and fuzzy matches', () => {
+    const resolver = new BuildingResolver(ALIASES);
+
+    assert.deepEqual(
+      ['Peters', 'Fred Nichols Campus Centre ', 'Lazaridis', 'LH'].map(raw => {
+        const { building, method } = resolver.resolve(raw);
+        return [building, method];
+      }),
+      [
+        ['Peters Building', 'alias'],
+        ['Fred Nichols Campus Center', 'normalized'],
+        ['Lazaridis Hall', 'fuzzy'],
+        ['Lazaridis Hall', 'fuzzy'],
+      ]
+    );
+  });
+
+  it('refuses unknown buildings unless new ones are allowed', () => {
+    assert.equal(new BuildingResolver(ALIASES).resolve('Global Innovation Exchange').method, 'unresolved');
+    assert.equal(new BuildingResolver(ALIASES).resolve('').building, null);
+
+    const lenient = new BuildingResolver(ALIASES, [], undefined, true);
+    assert.equal(lenient.resolve(' Global  Innovation Exchange').building, 'Global Innovation Exchange');
+  });
+
+  it('lists the resolutions that need review', () => {
+    const resolver = new BuildingResolver(ALIASES);
+    resolver.resolveAll(['Peters', 'Lazaridis', 'Lazaridis', 'Nowhere']);
+
+    assert.deepEqual(
+      resolver.needsReview().map(({ raw, occurrences }) => [raw, occurrences]),
+      [['Lazaridis', 2], ['Nowhere', 1]]
+    );
+  });
+});
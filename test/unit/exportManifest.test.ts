@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CHANGESET_MANIFEST_FILE,
+  loadExportManifest,
+  verifyExportManifest,
+  writeExportManifest,
+} from '../../src/services/exportManifest';
+
+/**
+ * Write a data file and the manifest listing it, as an export run would
+ */
+async function exportFile(dir: string, file: string, format: 'json' | 'changeset', fileName?: string) {
+  fs.writeFileSync(path.join(dir, file), JSON.stringify([{ id: 'a' }]));
+  const draft = {
+    projectId: 'demo',
+    generatedAt: new Date().toISOString(),
+    format,
+    collections: [{ path: 'rooms', documents: 1, file }],
+    skipped: [],
+  };
+  return writeExportManifest(dir, draft, fileName);
+}
+
+describe('verifyExportManifest', () => {
+  it('keeps the full export verifiable after an incremental export in the same directory', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'export-manifest-'));
+    await exportFile(dir, 'rooms.json', 'json');
+    await exportFile(dir, 'rooms.changeset.json', 'changeset', CHANGESET_MANIFEST_FILE);
+
+    assert.equal(loadExportManifest(dir)?.format, 'json');
+    assert.equal(loadExportManifest(dir, CHANGESET_MANIFEST_FILE)?.format, 'changeset');
+
+    const full = await verifyExportManifest(dir, ['rooms.json']);
+    assert.deepEqual(full.problems, []);
+    assert.deepEqual(full.unlisted, []);
+
+    const changesets = await verifyExportManifest(dir, ['rooms.changeset.json'], CHANGESET_MANIFEST_FILE);
+    assert.deepEqual(changesets.problems, []);
+    assert.deepEqual(changesets.unlisted, []);
+  });
+
+  it('fails a changeset run when no incremental export has been taken', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'export-manifest-'));
+    await exportFile(dir, 'rooms.json', 'json');
+
+    const result = await verifyExportManifest(dir, ['rooms.changeset.json'], CHANGESET_MANIFEST_FILE);
+    assert.deepEqual(result.problems, [`No ${CHANGESET_MANIFEST_FILE} in ${dir}`]);
+  });
+});
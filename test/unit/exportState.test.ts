@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  changesetFileName,
+  ExportChangeset,
+  ExportedDocument,
+  loadPendingChangeset,
+  markChangesetsApplied,
+  mergeChangesets,
+} from '../../src/services/exportState';
+
+/**
+ * A changeset of the rooms collection
+ */
+function changeset(generatedAt: string, since: string | null, upserted: ExportedDocument[], deleted: string[]): ExportChangeset {
+  return { collection: 'rooms', since, until: generatedAt, generatedAt, upserted, deleted };
+}
+
+describe('mergeChangesets', () => {
+  it('keeps the latest version of every document and the deletions of both', () => {
+    const pending = changeset('t1', 't0', [{ id: 'a', room: 'A1' }, { id: 'b', room: 'B1' }, { id: 'c' }], ['x', 'y']);
+    const next = changeset('t2', 't1', [{ id: 'a', room: 'A2' }, { id: 'y' }], ['b']);
+
+    assert.deepEqual(mergeChangesets(pending, next), {
+      collection: 'rooms',
+      since: 't0',
+      until: 't2',
+      generatedAt: 't2',
+      upserted: [{ id: 'c' }, { id: 'a', room: 'A2' }, { id: 'y' }],
+      deleted: ['x', 'b'],
+    });
+  });
+});
+
+describe('loadPendingChangeset', () => {
+  it('returns a changeset until a migration marks it applied', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'changesets-'));
+    try {
+      assert.equal(loadPendingChangeset(dir, 'rooms'), null);
+
+      const written = changeset('t1', null, [{ id: 'a' }], []);
+      fs.writeFileSync(path.join(dir, changesetFileName('rooms')), JSON.stringify(written));
+      assert.deepEqual(loadPendingChangeset(dir, 'rooms'), written);
+
+      markChangesetsApplied(dir, ['rooms', 'study-rooms']);
+      assert.equal(loadPendingChangeset(dir, 'rooms'), null);
+
+      // A newer export is pending again
+      fs.writeFileSync(path.join(dir, changesetFileName('rooms')), JSON.stringify(changeset('t2', 't1', [], ['a'])));
+      assert.equal(loadPendingChangeset(dir, 'rooms')?.generatedAt, 't2');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,169 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CollectionMapping,
+  loadCollectionMappings,
+  mapDocument,
+  mappedCollections,
+  photoUrls,
+  referencedBuildings,
+} from '../../src/migration/mappings';
+
+const lookups = {
+  building: (rawName: string) => `building:${rawName}`,
+  term: (vocabulary: string, term: string) => (term === 'humming' ? null : `${vocabulary}:${term}`),
+};
+
+const ROOM = {
+  id: 'room-1',
+  building: 'Arts',
+  room: 'A101',
+  photos: ['https://example.com/a.png'],
+  information: { av_inputs: 'yes', pc: 'no', whiteboard: 'no', projector: 'yes' },
+};
+
+/**
+ * Write mapping files to a temporary directory and load them
+ */
+function loadMappings(files: Record<string, unknown>) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mappings-'));
+  try {
+    for (const [file, mapping] of Object.entries(files)) {
+      fs.writeFileSync(path.join(dir, file), JSON.stringify(mapping));
+    }
+    return loadCollectionMappings(dir);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+describe('mapDocument', () => {
+  it('maps the rooms collection as configured', () => {
+    const { rooms } = loadCollectionMappings();
+
+    assert.deepEqual(mapDocument(rooms, ROOM, lookups), {
+      sourceId: 'room-1',
+      label: 'A101',
+      data: {
+        buildingId: 'building:Arts',
+        room: 'A101',
+        hasAvInputs: true,
+        hasPc: false,
+        hasWhiteboard: false,
+        hasProjector: true,
+      },
+    });
+    assert.deepEqual(photoUrls(rooms, ROOM), ['https://example.com/a.png']);
+    assert.deepEqual(referencedBuildings(rooms, ROOM), ['Arts']);
+  });
+
+  it('applies transforms in order, enum mappings and defaults', () => {
+    const mapping: CollectionMapping = {
+      collection: 'study-rooms',
+      model: 'StudySpot',
+      label: 'name',
+      fields: {
+        name: { from: 'name', transforms: ['trim'] },
+        noiseLevel: { from: 'noise', transforms: ['trim', 'lowercase', { enum: { quiet: 'Quiet', loud: 'Loud' } }] },
+        spaceType: { from: 'spaceType', default: null },
+        description: { default: '' },
+      },
+    };
+
+    assert.deepEqual(
+      mapDocument(mapping, { id: 's1', name: ' Library ', noise: ' QUIET', spaceType: '' }, lookups).data,
+      { name: 'Library', noiseLevel: 'Quiet', spaceType: null, description: '' }
+    );
+    assert.throws(
+      () => mapDocument(mapping, { id: 's2', name: 'Lab', noise: 'humming' }, lookups),
+      /No mapping for noise value "humming"/
+    );
+    assert.throws(() => mapDocument(mapping, { id: 's3', noise: 'quiet' }, lookups), /Missing name \(mapped to name\)/);
+  });
+
+  it('normalizes vocabulary terms, dropping unmapped ones from lists', () => {
+    const mapping: CollectionMapping = {
+      collection: 'study-rooms',
+      model: 'StudySpot',
+      label: 'name',
+      fields: {
+        features: { from: 'features', transforms: [{ vocabulary: 'Feature' }] },
+        noiseLevel: { from: 'noise', transforms: [{ vocabulary: 'NoiseLevel' }] },
+        spaceType: { from: 'spaceType', transforms: [{ vocabulary: 'SpaceType' }], default: null },
+      },
+    };
+
+    assert.deepEqual(
+      mapDocument(mapping, { id: 's1', features: ['wifi', 'humming', 'wifi'], noise: 'quiet', spaceType: 'humming' }, lookups).data,
+      { features: ['Feature:wifi'], noiseLevel: 'NoiseLevel:quiet', spaceType: null }
+    );
+    assert.throws(
+      () => mapDocument(mapping, { id: 's2', features: [], noise: 'humming' }, lookups),
+      /No NoiseLevel value for noise "humming"/
+    );
+  });
+});
+
+describe('loadCollectionMappings', () => {
+  const studyRooms = { collection: 'study-rooms', model: 'StudySpot', label: 'name', fields: {} };
+  const rooms = { collection: 'rooms', model: 'LectureHall', label: 'room', fields: {} };
+
+  it('requires the built-in collections and rejects invalid mappings', () => {
+    assert.throws(() => loadMappings({ 'rooms.json': rooms }), /No mapping config for study-rooms/);
+
+    assert.throws(
+      () => loadMappings({
+        'study-rooms.json': studyRooms,
+        'rooms.json': { ...rooms, fields: { seats: { from: 'capacity' }, room: { transforms: ['upper'] } } },
+      }),
+      /"seats" is not a column the mapping can write; "room" needs "from" or "default"; "room.transforms" must list/
+    );
+
+    assert.throws(
+      () => loadMappings({
+        'study-rooms.json': studyRooms,
+        'rooms.json': rooms,
+        'reviews.json': { collection: 'reviews', model: 'Review', label: 'title', fields: {} },
+      }),
+      /model "Review" doesn't exist or has no sourceId, sourceUniversityId, migrationRunId columns/
+    );
+  });
+
+  it('requires the columns the migration writes and rolls back by', () => {
+    assert.throws(
+      () => loadMappings({
+        'study-rooms.json': studyRooms,
+        'rooms.json': rooms,
+        'users.json': { collection: 'users', model: 'User', label: 'name', fields: {} },
+      }),
+      /model "User" doesn't exist or has no sourceId, sourceUniversityId, migrationRunId columns/
+    );
+    assert.throws(
+      () => loadMappings({
+        'study-rooms.json': studyRooms,
+        'rooms.json': rooms,
+        'buildings.json': { collection: 'buildings', model: 'Building', label: 'name', fields: {} },
+      }),
+      /model "Building" doesn't exist or has no sourceId, sourceUniversityId columns/
+    );
+  });
+
+  it('only lets the built-in collections write study spots and lecture halls', () => {
+    assert.throws(
+      () => loadMappings({
+        'study-rooms.json': studyRooms,
+        'rooms.json': rooms,
+        'library-rooms.json': { collection: 'library-rooms', model: 'StudySpot', label: 'name', fields: {} },
+      }),
+      /StudySpot rows only come from study-rooms/
+    );
+
+    const mappings = loadMappings({ 'study-rooms.json': studyRooms, 'rooms.json': rooms });
+    assert.deepEqual(mappings.additional, []);
+    assert.deepEqual(mappedCollections(mappings), ['study-rooms', 'rooms']);
+    assert.equal(mappings.rooms.model, 'LectureHall');
+  });
+});
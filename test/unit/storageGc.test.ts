@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { findOrphanedObjects, storageScanRoots } from '../../src/migration/storageGc';
+
+const NOW = new Date('2024-06-01T00:00:00Z');
+const OLD = new Date('2024-01-01T00:00:00Z');
+
+describe('storageScanRoots', () => {
+  it('scans from the fixed part of every storage prefix', () => {
+    assert.deepEqual(
+      storageScanRoots(['universities/{universityId}', 'universities/{slug}/photos', 'campus/laurier']),
+      ['campus/laurier/', 'universities/']
+    );
+  });
+});
+
+describe('findOrphanedObjects', () => {
+  it('reports objects under university IDs no configured university has any more', () => {
+    const objects = [
+      { path: 'universities/current-id/photos/study-spots/s1/0.webp', size: 10, updatedAt: OLD },
+      { path: 'universities/wiped-id/photos/study-spots/s1/0.webp', size: 20, updatedAt: OLD },
+      { path: 'universities/wiped-id/photos/study-spots/s2/0.webp', size: 30, updatedAt: NOW },
+      { path: 'universities/running-id/photos/lecture-halls/h1/0.webp', size: 40, updatedAt: OLD },
+    ];
+
+    const report = findOrphanedObjects(
+      'photos',
+      storageScanRoots(['universities/{universityId}']),
+      objects,
+      new Set(['universities/current-id/photos/study-spots/s1/0.webp']),
+      new Set(['universities/running-id/photos/lecture-halls/h1/0.webp']),
+      60 * 60 * 1000,
+      NOW
+    );
+
+    assert.deepEqual(report.orphans.map(object => object.path), ['universities/wiped-id/photos/study-spots/s1/0.webp']);
+    assert.deepEqual([report.referenced, report.kept], [1, 2]);
+    assert.deepEqual(report.bytesByUniversity, { 'universities/wiped-id': 20 });
+  });
+});
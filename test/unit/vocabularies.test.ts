@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ROOT_DIR } from '../../src/migration/config';
+import { loadVocabularies, normalizeTerm, VocabularyNormalizer } from '../../src/migration/vocabularies';
+
+/**
+ * Write a vocabulary config to a temporary file and load it
+ */
+function loadConfig(config: unknown) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vocabularies-'));
+  try {
+    const filePath = path.join(dir, 'vocabularies.json');
+    fs.writeFileSync(filePath, JSON.stringify(config));
+    return loadVocabularies(filePath);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+describe('normalizeTerm', () => {
+  it('ignores case, accents, punctuation and whitespace', () => {
+    assert.equal(normalizeTerm(' Wi-Fi '), 'wi fi');
+    assert.equal(normalizeTerm('Café'), 'cafe');
+    assert.equal(normalizeTerm('Meeting & Presentation'), 'meeting and presentation');
+  });
+});
+
+describe('VocabularyNormalizer', () => {
+  it('maps names, labels and configured synonyms to the value name', () => {
+    const normalizer = new VocabularyNormalizer(loadVocabularies());
+
+    assert.equal(normalizer.normalize('Feature', 'Wifi', 'a'), 'WIFI');
+    assert.equal(normalizer.normalize('Feature', 'WI-FI', 'a'), 'WIFI');
+    assert.equal(normalizer.normalize('Feature', 'Power Outlets', 'a'), 'POWER_OUTLETS');
+    assert.equal(normalizer.normalize('NoiseLevel', 'silent', 'a'), 'QUIET');
+    assert.equal(normalizer.normalize('SpaceType', 'Media Lab/Studio', 'a'), 'MEDIA_LAB_STUDIO');
+    assert.equal(normalizer.normalize('Feature', 'sofas', 'a'), null);
+    assert.throws(() => normalizer.normalize('Colour', 'red', 'a'), /Unknown vocabulary Colour/);
+  });
+
+  it('reports rewritten and unmapped terms per vocabulary', () => {
+    const normalizer = new VocabularyNormalizer({ Feature: { WIFI: ['wireless'] } });
+    normalizer.normalize('Feature', 'WIFI', 'a');
+    normalizer.normalize('Feature', 'wireless', 'a');
+    normalizer.normalize('Feature', 'wireless', 'b');
+    normalizer.normalize('Feature', 'sofas', 'b');
+    normalizer.normalize('Feature', 'sofas', 'b');
+
+    assert.deepEqual(normalizer.report(), [
+      {
+        vocabulary: 'Feature',
+        normalized: [{ value: 'wireless', canonical: 'WIFI', occurrences: 2 }],
+        unmapped: [{ value: 'sofas', occurrences: 2, sourceIds: ['b'] }],
+      },
+    ]);
+  });
+});
+
+describe('loadVocabularies', () => {
+  it('rejects vocabularies and values the schema doesn\'t have', () => {
+    assert.throws(
+      () => loadConfig({ Colour: { RED: [] }, Feature: { SOFAS: ['couch'], WIFI: 'wireless' } }),
+      /"Colour" is not a Prisma enum .*; "Feature.SOFAS" is not a value of Feature; "Feature.WIFI" must list synonyms/
+    );
+  });
+});
+
+describe('002-canonical-vocabularies.sql', () => {
+  it('converts stored values with the synonyms of config/vocabularies.json', () => {
+    const script = fs.readFileSync(path.join(ROOT_DIR, 'prisma/upgrades/002-canonical-vocabularies.sql'), 'utf-8');
+    // vocabulary_terms rows: ('Feature', 'wi fi', 'WIFI')
+    const rows = [...script.matchAll(/^ +\('(\w+)', '([^']*)', '(\w+)'\)/gm)].map(([, ...row]) => row.join(':'));
+
+    const config = loadVocabularies();
+    const normalizer = new VocabularyNormalizer(config);
+    const expected = Object.entries(config).flatMap(([vocabulary, members]) =>
+      Object.entries(members).flatMap(([member, synonyms]) =>
+        [member, ...synonyms].map(term => `${vocabulary}:${normalizeTerm(term)}:${normalizer.normalize(vocabulary, term, 'script')}`)
+      )
+    );
+    assert.deepEqual(new Set(rows), new Set(expected));
+  });
+});